@@ -1,24 +1,79 @@
-import { useState } from 'react';
-import { VideoPlayer } from './components/VideoPlayer';
-import { YouTubePlayer } from './components/YouTubePlayer';
-import { AnnotationPanel, Annotation } from './components/AnnotationPanel';
-import { Link, Upload } from 'lucide-react';
-
-// Helper function to extract YouTube video ID
-function extractYouTubeVideoId(url: string): string | null {
-  const patterns = [
-    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\s?]+)/,
-    /^([a-zA-Z0-9_-]{11})$/,
-  ];
-  
-  for (const pattern of patterns) {
-    const match = url.match(pattern);
-    if (match && match[1]) {
-      return match[1];
-    }
-  }
-  return null;
-}
+import { useState, useRef, useMemo, useCallback, useEffect } from 'react';
+import { PlayerHost } from './components/PlayerHost';
+import {
+  AnnotationPanel,
+  AnnotationPanelHandle,
+  Annotation,
+  AnnotationDraft,
+  ProjectAdditions,
+  Region,
+  TimeRange,
+} from './components/AnnotationPanel';
+import { AnnotationTimeline } from './components/AnnotationTimeline';
+import { ShortcutHelpDialog } from './components/ShortcutHelpDialog';
+import { Toaster } from './components/ui/sonner';
+import { AnnotationTypeSettingsDialog } from './components/AnnotationTypeSettingsDialog';
+import { FieldSchemaSettingsDialog } from './components/FieldSchemaSettingsDialog';
+import { PromptTemplatesDialog } from './components/PromptTemplatesDialog';
+import { Link, Upload, History, Keyboard, ImageOff, X, Tags, ListPlus, Undo2, Redo2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { PlayerAdapter } from './player/types';
+import { createFileSource, getPlayerSource, resolveVideoSource, VideoSource } from './player/sources';
+import { useSessionAutosave, SessionState } from './hooks/useSessionAutosave';
+import { createAnnotationId, getFrameFields, getFrameFile, retimeAnnotation } from './utils/annotations';
+import { buildAnnotationExport } from './utils/exportSchema';
+import { downloadFile } from './utils/download';
+import { buildInstructionJsonl } from './utils/exportJsonl';
+import { buildAnnotationTable } from './utils/annotationTable';
+import { buildAnnotationCues, toSrt, toWebVtt } from './utils/captionExport';
+import { useObjectUrl } from './hooks/useObjectUrl';
+import type { ExportFormat } from './utils/exportFormats';
+import { applyImport, ImportMode } from './utils/annotationImport';
+import {
+  getFileSessionKey,
+  loadFrame,
+  deleteSession,
+  loadSession,
+  ProjectState,
+  pruneFrames,
+  saveFrame,
+  SessionSnapshot,
+  SessionStoreBlockedError,
+} from './utils/sessionStore';
+import { FrameCaptureError } from './utils/frameCapture';
+import { createZip, ZipEntry } from './utils/zip';
+import {
+  getSubtitleFormat,
+  parseSubtitles,
+  serializeVtt,
+  SUBTITLE_FILE_ACCEPT,
+  SubtitleParseError,
+} from './utils/subtitles';
+import { loadShortcuts, saveShortcuts, ShortcutBindings } from './utils/shortcuts';
+import { loadPromptLibrary, PromptLibrary, savePromptLibrary } from './utils/promptTemplates';
+import { AnnotationFilter, EMPTY_FILTER, filterAnnotations } from './utils/annotationFilter';
+import { applyBulkEdit, BulkEdit, getBulkEditMissingFields } from './utils/bulkEdit';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { MAX_HISTORY, useUndoableState } from './hooks/useUndoableState';
+import { useABLoop } from './hooks/useABLoop';
+import { AnnotationTypeConfig, DEFAULT_ANNOTATION_TYPES, getTypeConfig } from './utils/annotationTypes';
+import { conformFieldValues } from './utils/customFields';
+import type { CustomFieldDefinition } from './utils/customFields';
+
+const PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2];
+
+// Undo history and toast labels of the bulk edits
+const BULK_EDIT_LABELS: Record<BulkEdit['kind'], string> = {
+  setType: '批量修改类型',
+  setFeedbackDuration: '批量设置反馈时长',
+  replaceText: '批量查找替换',
+  shiftTime: '批量平移时间',
+};
+
+// Shortest window looped for an annotation, so a zero feedback duration still plays
+const MIN_ANNOTATION_LOOP = 1;
+
+const HISTORY_SCOPE_HINT = `撤销记录最多保留 ${MAX_HISTORY} 步，随会话自动保存，恢复会话时一并恢复`;
 
 export default function App() {
   const [videoUrl, setVideoUrl] = useState('');
@@ -26,29 +81,206 @@ export default function App() {
   const [currentTime, setCurrentTime] = useState(0);
   const [isPaused, setIsPaused] = useState(true);
   const [isAnnotating, setIsAnnotating] = useState(false);
-  const [annotations, setAnnotations] = useState<Annotation[]>([]);
-  const [videoType, setVideoType] = useState<'youtube' | 'direct'>('direct');
-  const [youtubeVideoId, setYoutubeVideoId] = useState('');
+  // Every change to the project goes through commit, so it can be undone. Types
+  // and fields are part of it so undoing a rename or an import restores them
+  // together with the annotations that use them.
+  const {
+    value: project,
+    history,
+    retained,
+    commit,
+    amend,
+    reset,
+    undo,
+    redo,
+    undoLabel,
+    redoLabel,
+  } = useUndoableState<ProjectState>({
+    annotations: [],
+    annotationTypes: DEFAULT_ANNOTATION_TYPES,
+    fieldSchema: [],
+  });
+  const { annotations, annotationTypes, fieldSchema } = project;
+  const [annotationFilter, setAnnotationFilter] = useState<AnnotationFilter>(EMPTY_FILTER);
+  const [isTypeSettingsOpen, setIsTypeSettingsOpen] = useState(false);
+  const [isFieldSettingsOpen, setIsFieldSettingsOpen] = useState(false);
+  const [videoSource, setVideoSource] = useState<VideoSource | null>(null);
   const [videoFileName, setVideoFileName] = useState('');
   const [subtitleUrl, setSubtitleUrl] = useState('');
   const [subtitleFileName, setSubtitleFileName] = useState('');
+  const [subtitleVtt, setSubtitleVtt] = useState('');
+  const [subtitleErrors, setSubtitleErrors] = useState<SubtitleParseError[]>([]);
+  // Name of the last uploaded file that had no usable cues
+  const [subtitleRejected, setSubtitleRejected] = useState('');
+  const [videoDuration, setVideoDuration] = useState(0);
+  const [markIn, setMarkIn] = useState<number | null>(null);
+  const [markOut, setMarkOut] = useState<number | null>(null);
+  const [draftRegions, setDraftRegions] = useState<Region[]>([]);
+  const [frameRate, setFrameRate] = useState<number | null>(null);
+  const [editingAnnotationId, setEditingAnnotationId] = useState<string | null>(null);
+  const [frameCaptureError, setFrameCaptureError] = useState('');
+  // End of the annotation window being reviewed; playback pauses when it is
+  // reached. Any other seek, pause or play ends the review.
+  const reviewEndRef = useRef<number | null>(null);
+  const isPausedRef = useRef(isPaused);
+  isPausedRef.current = isPaused;
+  const [sessionKey, setSessionKey] = useState('');
+  // Autosave stays off until the stored session for this video has been checked
+  const [isSessionReady, setIsSessionReady] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<SessionSnapshot | null>(null);
+  const playerRef = useRef<PlayerAdapter>(null);
+  const panelRef = useRef<AnnotationPanelHandle>(null);
+  const [shortcuts, setShortcuts] = useState<ShortcutBindings>(loadShortcuts);
+  const { loop, setA, setB, setLoop, clearLoop, checkLoop } = useABLoop(playerRef);
+  const [isShortcutHelpOpen, setIsShortcutHelpOpen] = useState(false);
+  const [promptLibrary, setPromptLibrary] = useState<PromptLibrary>(loadPromptLibrary);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const sessionKeyRef = useRef('');
+
+  const commitAnnotations = (label: string, update: (current: Annotation[]) => Annotation[]) =>
+    commit(label, (current) => ({ ...current, annotations: update(current.annotations) }));
+
+  const amendAnnotations = (update: (current: Annotation[]) => Annotation[]) =>
+    amend((current) => ({ ...current, annotations: update(current.annotations) }));
+
+  // Types and fields are kept when another video is loaded, so a team's
+  // configuration carries over between videos
+  const resetAnnotations = (value: Annotation[]) => reset({ ...project, annotations: value });
+
+  const beginSession = (key: string) => {
+    sessionKeyRef.current = key;
+    setSessionKey(key);
+    setIsSessionReady(false);
+    setPendingRestore(null);
+    loadSession(key)
+      .then((snapshot) => {
+        if (sessionKeyRef.current !== key) return;
+        // A session whose annotations were all deleted is still offered, so the deletion can be undone
+        if (snapshot && (snapshot.annotations.length > 0 || (snapshot.history?.past.length ?? 0) > 0)) {
+          setPendingRestore(snapshot);
+        } else {
+          setIsSessionReady(true);
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load saved session:', error);
+        if (error instanceof SessionStoreBlockedError) {
+          toast.error(error.message);
+        }
+        if (sessionKeyRef.current === key) {
+          setIsSessionReady(true);
+        }
+      });
+  };
+
+  const handleRestoreSession = () => {
+    if (!pendingRestore) return;
+    reset(
+      {
+        annotations: pendingRestore.annotations,
+        annotationTypes: pendingRestore.annotationTypes ?? annotationTypes,
+        fieldSchema: pendingRestore.fieldSchema ?? fieldSchema,
+      },
+      pendingRestore.history
+    );
+    if (pendingRestore.subtitleVtt) {
+      const vttBlob = new Blob([pendingRestore.subtitleVtt], { type: 'text/vtt' });
+      setSubtitleUrl(URL.createObjectURL(vttBlob));
+      setSubtitleVtt(pendingRestore.subtitleVtt);
+      setSubtitleFileName(pendingRestore.subtitleFileName);
+    }
+    playerRef.current?.seek(pendingRestore.currentTime);
+    setPendingRestore(null);
+    setIsSessionReady(true);
+  };
+
+  // The stored session is deleted, so its frames are no longer kept for it
+  const handleDiscardSession = () => {
+    deleteSession(sessionKey).catch((error) => console.error('Failed to delete saved session:', error));
+    setPendingRestore(null);
+    setIsSessionReady(true);
+  };
+
+  const sessionState = useMemo<SessionState | null>(() => {
+    if (!sessionKey || !isSessionReady) return null;
+    return {
+      key: sessionKey,
+      videoUrl,
+      videoFileName,
+      annotations,
+      annotationTypes,
+      fieldSchema,
+      history,
+      subtitleFileName,
+      subtitleVtt,
+    };
+  }, [
+    sessionKey,
+    isSessionReady,
+    videoUrl,
+    videoFileName,
+    annotations,
+    annotationTypes,
+    fieldSchema,
+    history,
+    subtitleFileName,
+    subtitleVtt,
+  ]);
+
+  useSessionAutosave(sessionState, currentTime);
+
+  // Frames referenced anywhere in the undo history, plus those being stored
+  // for an annotation that does not reference them yet
+  const retainedFrames = useMemo(
+    () => new Set(retained.flatMap((state) => state.annotations.flatMap((ann) => (ann.frame ? [ann.frame.file] : [])))),
+    [retained]
+  );
+  const retainedFramesRef = useRef(retainedFrames);
+  const pendingFramesRef = useRef(new Set<string>());
+
+  // A deleted annotation's frame is kept while undo can bring it back. Once a
+  // frame drops out of the history (or the history is replaced) it is deleted,
+  // unless a saved session of another video still uses it. Nothing is pruned
+  // while switching videos, as the previous session may not be saved yet.
+  useEffect(() => {
+    const previous = retainedFramesRef.current;
+    retainedFramesRef.current = retainedFrames;
+    // A stored frame stays pending until the history references it
+    pendingFramesRef.current.forEach((file) => retainedFrames.has(file) && pendingFramesRef.current.delete(file));
+    if (!sessionKey || !isSessionReady) return;
+    if (![...previous].some((file) => !retainedFrames.has(file))) return;
+    pruneFrames(
+      (file) => retainedFramesRef.current.has(file) || pendingFramesRef.current.has(file),
+      sessionKey
+    ).catch((error) => console.error('Failed to delete unused frames:', error));
+  }, [retainedFrames]);
+
+  const filteredAnnotations = useMemo(
+    () => filterAnnotations(annotations, annotationFilter, fieldSchema),
+    [annotations, annotationFilter, fieldSchema]
+  );
+  // What the timeline shows and the exports contain
+  const outputAnnotations = annotationFilter.applyToOutputs ? filteredAnnotations : annotations;
+
+  const annotationVtt = useMemo(
+    () => (annotations.length > 0 ? toWebVtt(buildAnnotationCues(annotations)) : null),
+    [annotations]
+  );
+  const annotationTrackUrl = useObjectUrl(annotationVtt, 'text/vtt');
 
   const handleLoadVideo = () => {
-    if (inputUrl.trim()) {
-      const youtubeId = extractYouTubeVideoId(inputUrl);
+    const source = inputUrl.trim() ? resolveVideoSource(inputUrl) : null;
+    if (source) {
+      setVideoSource(source);
+      setVideoUrl(source.url);
+      setVideoFileName(source.fileName);
+      beginSession(getPlayerSource(source.kind).getSessionKey(source));
       
-      if (youtubeId) {
-        setVideoType('youtube');
-        setYoutubeVideoId(youtubeId);
-        setVideoUrl(inputUrl);
-        setVideoFileName('');
-      } else {
-        setVideoType('direct');
-        setVideoUrl(inputUrl);
-        setVideoFileName(inputUrl.split('/').pop() || '');
-      }
-      
-      setAnnotations([]);
+      // History belongs to the previous video, whose annotations stay in its autosaved session
+      resetAnnotations([]);
+      setVideoDuration(0);
+      setFrameRate(null);
+      clearLoop();
       setIsPaused(true);
     }
   };
@@ -56,93 +288,430 @@ export default function App() {
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      const fileUrl = URL.createObjectURL(file);
-      setVideoType('direct');
-      setVideoUrl(fileUrl);
-      setVideoFileName(file.name);
+      const source = createFileSource(file);
+      setVideoSource(source);
+      setVideoUrl(source.url);
+      setVideoFileName(source.fileName);
       setInputUrl('');
-      setAnnotations([]);
+      // History belongs to the previous video, whose annotations stay in its autosaved session
+      resetAnnotations([]);
+      setVideoDuration(0);
+      setFrameRate(null);
+      clearLoop();
       setIsPaused(true);
+      // The blob: URL is different on every load, so match the file by content
+      sessionKeyRef.current = '';
+      setSessionKey('');
+      setPendingRestore(null);
+      getFileSessionKey(file)
+        .then(beginSession)
+        .catch((error) => console.error('Failed to fingerprint video file:', error));
     }
   };
 
+  // Cues that fail to parse are listed under the upload button; the file is
+  // only rejected when none of them can be used
   const handleSubtitleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
-      const fileName = file.name.toLowerCase();
-      
-      // 如果是 .srt 文件，转换为 .vtt
-      if (fileName.endsWith('.srt')) {
-        const text = await file.text();
-        const vttContent = convertSrtToVtt(text);
-        const vttBlob = new Blob([vttContent], { type: 'text/vtt' });
-        const vttUrl = URL.createObjectURL(vttBlob);
-        setSubtitleUrl(vttUrl);
-        setSubtitleFileName(file.name);
-      } else if (fileName.endsWith('.vtt')) {
-        // .vtt 文件直接使用
-        const vttUrl = URL.createObjectURL(file);
-        setSubtitleUrl(vttUrl);
-        setSubtitleFileName(file.name);
-      } else {
-        alert('请上传 .srt 或 .vtt 格式的字幕文件');
-      }
+    event.target.value = '';
+    if (!file) return;
+    const format = getSubtitleFormat(file.name);
+    if (!format) {
+      alert('请上传 .srt、.vtt、.ass / .ssa 或 .ttml / .dfxp 格式的字幕文件');
+      return;
+    }
+    const result = parseSubtitles(await file.text(), format);
+    setSubtitleErrors(result.errors);
+    if (result.cues.length === 0) {
+      setSubtitleRejected(file.name);
+      return;
+    }
+    const vttContent = serializeVtt(result);
+    setSubtitleUrl(URL.createObjectURL(new Blob([vttContent], { type: 'text/vtt' })));
+    setSubtitleVtt(vttContent);
+    setSubtitleFileName(file.name);
+    setSubtitleRejected('');
+  };
+
+  // Stable so the players' effects do not re-run on every time update
+  const handleTimeUpdate = useCallback((time: number) => {
+    setCurrentTime(time);
+    if (reviewEndRef.current !== null && time >= reviewEndRef.current) {
+      reviewEndRef.current = null;
+      setIsPaused(true);
+    }
+    checkLoop(time);
+  }, [checkLoop]);
+
+  // Stable for the same reason. Players also report the play they were asked
+  // for, so only a pause or a start from paused counts as the user's.
+  const handlePauseChange = useCallback((paused: boolean) => {
+    if (paused || isPausedRef.current) {
+      reviewEndRef.current = null;
     }
+    setIsPaused(paused);
+  }, []);
+
+  const seekTo = (time: number) => {
+    reviewEndRef.current = null;
+    playerRef.current?.seek(time);
+  };
+
+  // Seeks made with the player's own seek bar
+  useEffect(() => {
+    return playerRef.current?.on('seek', () => {
+      reviewEndRef.current = null;
+    });
+  }, [videoSource]);
+
+  const handleSeekAnnotation = (annotation: Annotation) => {
+    seekTo(annotation.timestamp);
+  };
+
+  const handlePlayAnnotationWindow = (annotation: Annotation) => {
+    playerRef.current?.seek(annotation.timestamp);
+    reviewEndRef.current = annotation.timestamp + annotation.feedbackDuration;
+    setIsPaused(false);
+  };
+
+  const handleLoopAnnotation = (annotation: Annotation) => {
+    reviewEndRef.current = null;
+    setLoop(annotation.timestamp, annotation.timestamp + Math.max(annotation.feedbackDuration, MIN_ANNOTATION_LOOP));
+    playerRef.current?.seek(annotation.timestamp);
+    setIsPaused(false);
+  };
+
+  const handleShortcutsChange = (bindings: ShortcutBindings) => {
+    setShortcuts(bindings);
+    saveShortcuts(bindings);
   };
 
-  // 将 SRT 格式转换为 VTT 格式
-  const convertSrtToVtt = (srt: string): string => {
-    let vtt = 'WEBVTT\n\n';
-    // 将 SRT 时间格式 (00:00:00,000) 转换为 VTT 格式 (00:00:00.000)
-    vtt += srt.replace(/(\d{2}:\d{2}:\d{2}),(\d{3})/g, '$1.$2');
-    return vtt;
+  const handlePromptLibraryChange = (library: PromptLibrary) => {
+    setPromptLibrary(library);
+    savePromptLibrary(library);
   };
 
+  const seekBy = (delta: number) => {
+    const player = playerRef.current;
+    if (player) {
+      seekTo(Math.max(0, player.getCurrentTime() + delta));
+    }
+  };
+
+  const changeSpeed = (direction: 1 | -1) => {
+    const player = playerRef.current;
+    if (!player) return;
+    const rate = player.getPlaybackRate();
+    const index = PLAYBACK_RATES.findIndex((candidate) => candidate >= rate);
+    const current = index === -1 ? PLAYBACK_RATES.length - 1 : index;
+    const next = PLAYBACK_RATES[Math.min(Math.max(current + direction, 0), PLAYBACK_RATES.length - 1)];
+    player.setPlaybackRate(next);
+  };
+
+  // Previous skips annotations within half a second so repeated presses keep moving back
+  const jumpToAnnotation = (direction: 1 | -1) => {
+    const times = annotations.map((ann) => ann.timestamp).sort((a, b) => a - b);
+    const target = direction === 1
+      ? times.find((time) => time > currentTime + 0.05)
+      : [...times].reverse().find((time) => time < currentTime - 0.5);
+    if (target !== undefined) {
+      seekTo(target);
+    }
+  };
+
+  useKeyboardShortcuts(
+    shortcuts,
+    {
+      togglePlay: () => handlePauseChange(!isPaused),
+      seekBack1: () => seekBy(-1),
+      seekForward1: () => seekBy(1),
+      seekBack5: () => seekBy(-5),
+      seekForward5: () => seekBy(5),
+      frameBack: () => playerRef.current?.stepFrame(-1),
+      frameForward: () => playerRef.current?.stepFrame(1),
+      speedDown: () => changeSpeed(-1),
+      speedUp: () => changeSpeed(1),
+      startAnnotation: () => !isAnnotating && handleStartAnnotation(),
+      doneAnnotation: () => panelRef.current?.done(),
+      toggleType: () => panelRef.current?.toggleType(),
+      toggleSubtitles: () => playerRef.current?.toggleSubtitles?.(),
+      previousAnnotation: () => jumpToAnnotation(-1),
+      nextAnnotation: () => jumpToAnnotation(1),
+      undo: () => handleUndo(),
+      redo: () => handleRedo(),
+      showHelp: () => setIsShortcutHelpOpen(true),
+    },
+    Boolean(videoSource) && !isShortcutHelpOpen && !isTypeSettingsOpen && !isFieldSettingsOpen && !isTemplatesOpen
+  );
+
   const handleStartAnnotation = () => {
     setIsAnnotating(true);
     setIsPaused(true);
+    handleClearMarks();
+    setDraftRegions([]);
+  };
+
+  const handleClearMarks = () => {
+    setMarkIn(null);
+    setMarkOut(null);
   };
 
-  const handleDoneAnnotation = (type: 'VLM' | 'LLM', question: string, requirements: string, feedbackDuration: number, manualTimestamp?: number) => {
+  // Only a complete, non-empty segment is attached; marks may be set in either order
+  const getMarkedRange = (): TimeRange | undefined => {
+    if (markIn === null || markOut === null || markIn === markOut) return undefined;
+    return { start: Math.min(markIn, markOut), end: Math.max(markIn, markOut) };
+  };
+
+  const handleDoneAnnotation = (draft: AnnotationDraft, manualTimestamp?: number) => {
+    const timestamp = manualTimestamp ?? currentTime;
     const newAnnotation: Annotation = {
-      id: Date.now().toString(),
-      timestamp: manualTimestamp ?? currentTime,
-      type,
-      question,
-      requirements,
-      feedbackDuration,
+      id: createAnnotationId(),
+      timestamp,
+      ...draft,
+      ...getFrameFields(timestamp, frameRate),
     };
-    setAnnotations([...annotations, newAnnotation]);
+    const range = getMarkedRange();
+    if (range) {
+      newAnnotation.range = range;
+    }
+    if (draftRegions.length > 0) {
+      newAnnotation.regions = draftRegions;
+    }
+    commitAnnotations('新建标注', (current) => [...current, newAnnotation]);
+    if (getTypeConfig(annotationTypes, newAnnotation.type).captureFrame) {
+      captureAnnotationFrame(newAnnotation.id);
+    }
+    handleClearMarks();
+    setDraftRegions([]);
     setIsAnnotating(false);
     setIsPaused(false); // Resume playback after annotation
   };
 
-  const handleDeleteAnnotation = (id: string) => {
-    setAnnotations(annotations.filter(ann => ann.id !== id));
+  // The frame is drawn synchronously, before playback resumes; the annotation
+  // gets its thumbnail once the full-resolution image has been stored
+  const captureAnnotationFrame = async (id: string) => {
+    const player = playerRef.current;
+    if (!player?.captureFrame) {
+      setFrameCaptureError('当前播放器（YouTube）不允许读取画面，标注未附带截图。请下载视频后以本地文件上传。');
+      return;
+    }
+    const file = getFrameFile(id);
+    pendingFramesRef.current.add(file);
+    try {
+      const { blob, width, height, thumbnail } = await player.captureFrame();
+      await saveFrame(file, blob);
+      amendAnnotations((current) =>
+        current.map((ann) => (ann.id === id ? { ...ann, frame: { file, width, height, thumbnail } } : ann))
+      );
+      setFrameCaptureError('');
+    } catch (error) {
+      pendingFramesRef.current.delete(file);
+      console.error('Frame capture failed:', error);
+      setFrameCaptureError(error instanceof FrameCaptureError ? error.message : '截取画面失败，标注未附带截图。');
+    }
+  };
+
+  // JSON export plus every stored frame of the exported annotations, at the path named in each
+  const exportZip = async (baseName: string, exported: Annotation[]) => {
+    const encoder = new TextEncoder();
+    const jsonData = buildAnnotationExport({
+      videoUrl,
+      videoFileName,
+      videoDuration,
+      annotationTypes,
+      fieldSchema,
+      annotations: exported,
+    });
+    const entries: ZipEntry[] = [
+      { name: 'annotations.json', data: encoder.encode(JSON.stringify(jsonData, null, 2)) },
+    ];
+    for (const annotation of exported) {
+      if (!annotation.frame) continue;
+      const blob = await loadFrame(annotation.frame.file);
+      if (blob) {
+        entries.push({ name: annotation.frame.file, data: new Uint8Array(await blob.arrayBuffer()) });
+      }
+    }
+    downloadFile(createZip(entries), `${baseName}.zip`, 'application/zip');
+  };
+
+  // While annotating, the regions being drawn; otherwise those of the annotation
+  // being edited and of every annotation whose feedback window is playing
+  const visibleRegions = isAnnotating
+    ? draftRegions
+    : annotations
+        .filter((ann) =>
+          ann.id === editingAnnotationId
+          || (currentTime >= ann.timestamp && currentTime <= ann.timestamp + ann.feedbackDuration)
+        )
+        .flatMap((ann) => ann.regions ?? []);
+
+  // Undo button of a toast. It only undoes the operation the toast reports, not
+  // whatever was done after it, and says so instead of doing nothing.
+  const undoFromToast = (entryId: number) => {
+    if (!undo(entryId)) {
+      toast('无法撤销：之后还有其他操作，请使用顶部的撤销按钮');
+    }
+  };
+
+  const handleDeleteAnnotations = (ids: string[]) => {
+    const removed = new Set(ids);
+    const isBulk = ids.length > 1;
+    const entryId = commitAnnotations(isBulk ? '批量删除标注' : '删除标注', (current) =>
+      current.filter((ann) => !removed.has(ann.id))
+    );
+    toast(isBulk ? `已删除 ${ids.length} 条标注` : '已删除标注', {
+      action: { label: '撤销', onClick: () => undoFromToast(entryId) },
+    });
+  };
+
+  const handleClearAnnotations = () => {
+    const count = annotations.length;
+    const entryId = commitAnnotations('清空标注', () => []);
+    toast(`已清空 ${count} 条标注`, {
+      action: { label: '撤销', onClick: () => undoFromToast(entryId) },
+    });
+  };
+
+  const handleBulkEdit = (ids: string[], edit: BulkEdit) => {
+    const selected = new Set(ids);
+    const skipped = new Set(
+      annotations
+        .filter((ann) => selected.has(ann.id) && getBulkEditMissingFields(ann, edit, annotationTypes).length > 0)
+        .map((ann) => ann.id)
+    );
+    if (skipped.size < selected.size) {
+      commitAnnotations(BULK_EDIT_LABELS[edit.kind], (current) =>
+        current.map((ann) =>
+          selected.has(ann.id) && !skipped.has(ann.id) ? applyBulkEdit(ann, edit, videoDuration) : ann
+        )
+      );
+    }
+    toast(
+      `${BULK_EDIT_LABELS[edit.kind]}：${selected.size - skipped.size} 条标注` +
+        (skipped.size > 0 ? `，${skipped.size} 条缺少目标类型的必填项，未修改` : '')
+    );
   };
 
   const handleUpdateAnnotation = (id: string, updatedAnnotation: Omit<Annotation, 'id'>) => {
-    setAnnotations(annotations.map(ann => 
-      ann.id === id ? { ...updatedAnnotation, id } : ann
-    ));
+    commitAnnotations('编辑标注', (current) =>
+      current.map((ann) => (ann.id === id ? { ...updatedAnnotation, id } : ann))
+    );
   };
 
-  const handleGenerateJSON = () => {
-    const jsonData = {
-      videoUrl,
-      totalAnnotations: annotations.length,
-      annotations: annotations.map(({ id, ...rest }) => rest),
-    };
+  const handleRetimeAnnotation = (id: string, timestamp: number) => {
+    commitAnnotations('调整标注时间', (current) =>
+      current.map((ann) => (ann.id === id ? retimeAnnotation(ann, timestamp) : ann))
+    );
+  };
 
-    const blob = new Blob([JSON.stringify(jsonData, null, 2)], {
-      type: 'application/json',
+  const handleUndo = () => {
+    if (!undoLabel) return;
+    undo();
+    toast(`已撤销：${undoLabel}`);
+  };
+
+  const handleRedo = () => {
+    if (!redoLabel) return;
+    redo();
+    toast(`已重做：${redoLabel}`);
+  };
+
+  const handleImportAnnotations = (imported: Annotation[], mode: ImportMode, additions: ProjectAdditions) => {
+    commit('导入标注', (current) => ({
+      annotations: applyImport(current.annotations, imported, mode),
+      annotationTypes: [...current.annotationTypes, ...additions.annotationTypes],
+      fieldSchema: [...current.fieldSchema, ...additions.fieldSchema],
+    }));
+  };
+
+  const handleSaveAnnotationTypes = (types: AnnotationTypeConfig[], renames: Record<string, string>) => {
+    const hasRenames = Object.keys(renames).length > 0;
+    if (!hasRenames && JSON.stringify(types) === JSON.stringify(annotationTypes)) return;
+    commit(hasRenames ? '重命名标注类型' : '修改标注类型', (current) => ({
+      ...current,
+      annotationTypes: types,
+      annotations: current.annotations.map((ann) =>
+        ann.type in renames ? { ...ann, type: renames[ann.type] } : ann
+      ),
+    }));
+    if (hasRenames) {
+      // Template defaults are keyed by type name too. They live outside the
+      // undo history, so the old names are kept for when the rename is undone.
+      const renamedDefaults = Object.entries(promptLibrary.typeDefaults)
+        .filter(([name]) => name in renames)
+        .map(([name, id]) => [renames[name], id]);
+      handlePromptLibraryChange({
+        ...promptLibrary,
+        typeDefaults: { ...promptLibrary.typeDefaults, ...Object.fromEntries(renamedDefaults) },
+      });
+    }
+  };
+
+  // Values of removed fields are dropped so annotations only carry fields the project defines
+  const handleSaveFieldSchema = (schema: CustomFieldDefinition[]) => {
+    if (JSON.stringify(schema) === JSON.stringify(fieldSchema)) return;
+    const isAffected = (ann: Annotation) => conformFieldValues(schema, ann.fields) !== ann.fields;
+    commit(annotations.some(isAffected) ? '删除自定义字段' : '修改自定义字段', (current) => ({
+      ...current,
+      fieldSchema: schema,
+      annotations: current.annotations.map((ann) => {
+        if (!isAffected(ann)) return ann;
+        const { fields, ...rest } = ann;
+        const kept = conformFieldValues(schema, fields);
+        return kept ? { ...rest, fields: kept } : rest;
+      }),
+    }));
+  };
+
+  const typeUsage = useMemo(() => {
+    const usage: Record<string, number> = {};
+    annotations.forEach((ann) => {
+      usage[ann.type] = (usage[ann.type] ?? 0) + 1;
     });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `video-annotations-${Date.now()}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+    return usage;
+  }, [annotations]);
+
+  const handleExport = (format: ExportFormat, ids?: string[]) => {
+    const baseName = `video-annotations-${Date.now()}`;
+    const exported = ids ? filteredAnnotations.filter((ann) => ids.includes(ann.id)) : outputAnnotations;
+    switch (format) {
+      case 'json': {
+        const jsonData = buildAnnotationExport({
+          videoUrl,
+          videoFileName,
+          videoDuration,
+          annotationTypes,
+          fieldSchema,
+          annotations: exported,
+        });
+        downloadFile(JSON.stringify(jsonData, null, 2), `${baseName}.json`, 'application/json');
+        break;
+      }
+      case 'jsonl':
+        downloadFile(
+          buildInstructionJsonl(exported, videoFileName || videoUrl, annotationTypes),
+          `${baseName}.jsonl`,
+          'application/jsonl'
+        );
+        break;
+      case 'csv':
+        // BOM so Excel opens the file as UTF-8
+        downloadFile('\uFEFF' + buildAnnotationTable(exported, ','), `${baseName}.csv`, 'text/csv');
+        break;
+      case 'tsv':
+        downloadFile(buildAnnotationTable(exported, '\t'), `${baseName}.tsv`, 'text/tab-separated-values');
+        break;
+      case 'vtt':
+        downloadFile(toWebVtt(buildAnnotationCues(exported)), `${baseName}.vtt`, 'text/vtt');
+        break;
+      case 'srt':
+        downloadFile(toSrt(buildAnnotationCues(exported)), `${baseName}.srt`, 'application/x-subrip');
+        break;
+      case 'zip':
+        exportZip(baseName, exported).catch((error) => console.error('ZIP export failed:', error));
+        break;
+    }
   };
 
   return (
@@ -150,7 +719,51 @@ export default function App() {
       <div className="max-w-7xl mx-auto">
         {/* Header */}
         <header className="mb-8">
-          <h1 className="text-3xl text-gray-900 mb-6">Open Video Annotator</h1>
+          <div className="flex items-center justify-between mb-6">
+            <h1 className="text-3xl text-gray-900">Open Video Annotator</h1>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleUndo}
+                disabled={!undoLabel}
+                className="p-2 rounded-lg bg-white border border-gray-200 text-gray-700 hover:bg-gray-100 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                title={`${undoLabel ? `撤销：${undoLabel} (${shortcuts.undo})` : '没有可撤销的操作'}\n${HISTORY_SCOPE_HINT}`}
+              >
+                <Undo2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={handleRedo}
+                disabled={!redoLabel}
+                className="p-2 rounded-lg bg-white border border-gray-200 text-gray-700 hover:bg-gray-100 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                title={`${redoLabel ? `重做：${redoLabel} (${shortcuts.redo})` : '没有可重做的操作'}\n${HISTORY_SCOPE_HINT}`}
+              >
+                <Redo2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setIsTypeSettingsOpen(true)}
+                className="px-3 py-2 text-sm rounded-lg bg-white border border-gray-200 text-gray-700 hover:bg-gray-100 transition-colors flex items-center gap-2"
+                title="配置标注类型"
+              >
+                <Tags className="w-4 h-4" />
+                标注类型
+              </button>
+              <button
+                onClick={() => setIsFieldSettingsOpen(true)}
+                className="px-3 py-2 text-sm rounded-lg bg-white border border-gray-200 text-gray-700 hover:bg-gray-100 transition-colors flex items-center gap-2"
+                title="配置自定义字段"
+              >
+                <ListPlus className="w-4 h-4" />
+                自定义字段
+              </button>
+              <button
+                onClick={() => setIsShortcutHelpOpen(true)}
+                className="px-3 py-2 text-sm rounded-lg bg-white border border-gray-200 text-gray-700 hover:bg-gray-100 transition-colors flex items-center gap-2"
+                title={`键盘快捷键 (${shortcuts.showHelp})`}
+              >
+                <Keyboard className="w-4 h-4" />
+                快捷键
+              </button>
+            </div>
+          </div>
           
           {/* Video URL Input */}
           <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
@@ -221,7 +834,7 @@ export default function App() {
             )}
             
             {/* Subtitle Upload Section */}
-            {videoUrl && videoType === 'direct' && (
+            {videoSource && getPlayerSource(videoSource.kind).supportsSubtitles && (
               <div className="mt-4 pt-4 border-t border-gray-200">
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   添加字幕（可选）
@@ -231,12 +844,12 @@ export default function App() {
                   onClick={() => document.getElementById('subtitle-upload')?.click()}
                 >
                   <Upload className="w-4 h-4" />
-                  上传字幕文件 (.srt / .vtt)
+                  上传字幕文件 (.srt / .vtt / .ass / .ttml)
                 </button>
                 <input
                   id="subtitle-upload"
                   type="file"
-                  accept=".srt,.vtt"
+                  accept={SUBTITLE_FILE_ACCEPT}
                   onChange={handleSubtitleUpload}
                   className="hidden"
                 />
@@ -245,45 +858,137 @@ export default function App() {
                     ✓ 字幕已加载: {subtitleFileName}
                   </p>
                 )}
+                {subtitleErrors.length > 0 && (
+                  <div className={`mt-2 text-xs ${subtitleRejected ? 'text-red-600' : 'text-amber-700'}`}>
+                    <p>
+                      {subtitleRejected
+                        ? `${subtitleRejected} 中没有可用的字幕：`
+                        : `已跳过 ${subtitleErrors.length} 处无法解析的内容：`}
+                    </p>
+                    <ul className="mt-1 max-h-24 overflow-y-auto list-disc list-inside">
+                      {subtitleErrors.map((error, index) => (
+                        <li key={index}>
+                          第 {error.line} 行：{error.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
             )}
           </div>
         </header>
 
+        {/* Session Restore Prompt */}
+        {pendingRestore && (
+          <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-center gap-4">
+            <History className="w-5 h-5 text-amber-600 flex-shrink-0" />
+            <p className="flex-1 text-sm text-amber-800">
+              检测到该视频的自动保存会话：{pendingRestore.annotations.length} 条标注，
+              保存于 {new Date(pendingRestore.savedAt).toLocaleString()}。是否恢复？
+              恢复后当前标注及撤销记录将被替换为保存的版本。
+            </p>
+            <button
+              onClick={handleRestoreSession}
+              className="px-4 py-2 text-sm font-medium rounded-lg bg-amber-600 text-white hover:bg-amber-700 transition-colors"
+            >
+              恢复
+            </button>
+            <button
+              onClick={handleDiscardSession}
+              className="px-4 py-2 text-sm font-medium rounded-lg bg-white text-gray-700 border border-gray-300 hover:bg-gray-100 transition-colors"
+            >
+              忽略
+            </button>
+          </div>
+        )}
+
+        {frameCaptureError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-4">
+            <ImageOff className="w-5 h-5 text-red-600 flex-shrink-0" />
+            <p className="flex-1 text-sm text-red-800">{frameCaptureError}</p>
+            <button
+              onClick={() => setFrameCaptureError('')}
+              className="p-1 text-red-400 hover:text-red-700 rounded transition-colors"
+              title="关闭"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
         {/* Main Content */}
-        {videoUrl ? (
+        {videoSource ? (
           <div className="grid grid-cols-2 gap-6">
-            {/* Left: Video Player */}
-            <div>
-              {videoType === 'youtube' ? (
-                <YouTubePlayer
-                  videoId={youtubeVideoId}
-                  onTimeUpdate={setCurrentTime}
-                  isPaused={isPaused}
-                  onPauseChange={setIsPaused}
-                />
-              ) : (
-                <VideoPlayer
-                  videoUrl={videoUrl}
-                  onTimeUpdate={setCurrentTime}
-                  isPaused={isPaused}
-                  onPauseChange={setIsPaused}
-                  subtitleUrl={subtitleUrl}
-                />
-              )}
+            {/* Left: Video Player & Timeline */}
+            <div className="space-y-4">
+              <PlayerHost
+                ref={playerRef}
+                source={videoSource}
+                onTimeUpdate={handleTimeUpdate}
+                onDurationChange={setVideoDuration}
+                onFrameRateChange={setFrameRate}
+                isPaused={isPaused}
+                onPauseChange={handlePauseChange}
+                subtitleUrl={subtitleUrl}
+                annotationTrackUrl={annotationTrackUrl}
+                isAnnotating={isAnnotating}
+                markIn={markIn}
+                markOut={markOut}
+                onMarkIn={() => setMarkIn(currentTime)}
+                onMarkOut={() => setMarkOut(currentTime)}
+                loop={loop}
+                onSetLoopA={() => setA(currentTime)}
+                onSetLoopB={() => setB(currentTime)}
+                onClearLoop={clearLoop}
+                regions={visibleRegions}
+                onRegionsChange={isAnnotating && isPaused ? setDraftRegions : undefined}
+              />
+              <AnnotationTimeline
+                annotations={outputAnnotations}
+                annotationTypes={annotationTypes}
+                duration={videoDuration}
+                currentTime={currentTime}
+                activeId={editingAnnotationId}
+                onSeek={seekTo}
+                onRetime={handleRetimeAnnotation}
+              />
             </div>
 
             {/* Right: Annotation Panel */}
             <div>
               <AnnotationPanel
+                ref={panelRef}
+                annotationTypes={annotationTypes}
+                fieldSchema={fieldSchema}
+                promptLibrary={promptLibrary}
+                onManageTemplates={() => setIsTemplatesOpen(true)}
+                videoName={videoFileName || videoUrl}
+                getSubtitleText={() => playerRef.current?.getSubtitleText?.() ?? ''}
                 isAnnotating={isAnnotating}
                 onStartAnnotation={handleStartAnnotation}
                 onDoneAnnotation={handleDoneAnnotation}
                 annotations={annotations}
-                onGenerateJSON={handleGenerateJSON}
-                onDeleteAnnotation={handleDeleteAnnotation}
+                filteredAnnotations={filteredAnnotations}
+                filter={annotationFilter}
+                onFilterChange={setAnnotationFilter}
+                onExport={handleExport}
+                onDeleteAnnotation={(id) => handleDeleteAnnotations([id])}
+                onBulkEdit={handleBulkEdit}
+                onBulkDelete={handleDeleteAnnotations}
+                onClearAnnotations={handleClearAnnotations}
                 onUpdateAnnotation={handleUpdateAnnotation}
+                onImportAnnotations={handleImportAnnotations}
                 currentTime={currentTime}
+                duration={videoDuration}
+                markIn={markIn}
+                markOut={markOut}
+                draftRegionCount={draftRegions.length}
+                onClearMarks={handleClearMarks}
+                onEditingChange={setEditingAnnotationId}
+                onSeekAnnotation={handleSeekAnnotation}
+                onPlayAnnotationWindow={handlePlayAnnotationWindow}
+                onLoopAnnotation={handleLoopAnnotation}
               />
             </div>
           </div>
@@ -296,6 +1001,39 @@ export default function App() {
           </div>
         )}
       </div>
+
+      <AnnotationTypeSettingsDialog
+        open={isTypeSettingsOpen}
+        onOpenChange={setIsTypeSettingsOpen}
+        types={annotationTypes}
+        usage={typeUsage}
+        onSave={handleSaveAnnotationTypes}
+      />
+
+      <FieldSchemaSettingsDialog
+        open={isFieldSettingsOpen}
+        onOpenChange={setIsFieldSettingsOpen}
+        schema={fieldSchema}
+        annotations={annotations}
+        onSave={handleSaveFieldSchema}
+      />
+
+      <PromptTemplatesDialog
+        open={isTemplatesOpen}
+        onOpenChange={setIsTemplatesOpen}
+        library={promptLibrary}
+        annotationTypes={annotationTypes}
+        onSave={handlePromptLibraryChange}
+      />
+
+      <ShortcutHelpDialog
+        open={isShortcutHelpOpen}
+        onOpenChange={setIsShortcutHelpOpen}
+        bindings={shortcuts}
+        onChange={handleShortcutsChange}
+      />
+
+      <Toaster position="bottom-center" />
     </div>
   );
 }
\ No newline at end of file
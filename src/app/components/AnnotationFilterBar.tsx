@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { Search, SlidersHorizontal, X } from 'lucide-react';
+import type { AnnotationTypeConfig } from '../utils/annotationTypes';
+import { AnnotationFilter, AnnotationSort, EMPTY_FILTER, isFilterActive } from '../utils/annotationFilter';
+import { formatPreciseTime, parseTime } from '../utils/time';
+
+interface AnnotationFilterBarProps {
+  filter: AnnotationFilter;
+  onChange: (filter: AnnotationFilter) => void;
+  annotationTypes: AnnotationTypeConfig[];
+  // Tag values in use, offered as chips
+  tags: string[];
+  resultCount: number;
+  totalCount: number;
+}
+
+// Time bound typed as m:ss; applied on blur or Enter so half-typed values are not parsed
+function TimeBoundInput({
+  value,
+  onChange,
+  placeholder,
+}: {
+  value: number | null;
+  onChange: (value: number | null) => void;
+  placeholder: string;
+}) {
+  const [text, setText] = useState('');
+
+  useEffect(() => {
+    setText(value === null ? '' : formatPreciseTime(value));
+  }, [value]);
+
+  const commit = () => {
+    if (!text.trim()) {
+      onChange(null);
+      return;
+    }
+    const time = parseTime(text);
+    if (Number.isNaN(time)) {
+      setText(value === null ? '' : formatPreciseTime(value));
+    } else {
+      onChange(time);
+    }
+  };
+
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      placeholder={placeholder}
+      className="w-24 p-1.5 text-xs font-mono border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+    />
+  );
+}
+
+export function AnnotationFilterBar({
+  filter,
+  onChange,
+  annotationTypes,
+  tags,
+  resultCount,
+  totalCount,
+}: AnnotationFilterBarProps) {
+  const [showFilters, setShowFilters] = useState(false);
+  const isActive = isFilterActive(filter);
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+
+  const chipClass = (selected: boolean) =>
+    `px-2 py-0.5 text-xs rounded-full border transition-colors ${
+      selected ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-100'
+    }`;
+
+  return (
+    <div className="mb-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="search"
+            value={filter.query}
+            onChange={(e) => onChange({ ...filter, query: e.target.value })}
+            placeholder="Search questions and requirements..."
+            className="w-full py-1.5 pl-8 pr-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <select
+          value={filter.sort}
+          onChange={(e) => onChange({ ...filter, sort: e.target.value as AnnotationSort })}
+          className="p-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          title="Sort order"
+        >
+          <option value="timestamp">By time</option>
+          <option value="created">By creation</option>
+        </select>
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className={`p-2 rounded-lg border transition-colors ${
+            showFilters || isActive ? 'border-blue-300 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-600 hover:bg-gray-100'
+          }`}
+          title="Filters"
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="p-2 bg-gray-50 border border-gray-200 rounded-lg space-y-2 text-xs text-gray-600">
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="w-12">Type</span>
+            {annotationTypes.map((type) => (
+              <button
+                key={type.name}
+                onClick={() => onChange({ ...filter, types: toggle(filter.types, type.name) })}
+                className={chipClass(filter.types.includes(type.name))}
+              >
+                {type.name}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1">
+            <span className="w-12">Time</span>
+            <TimeBoundInput value={filter.from} onChange={(from) => onChange({ ...filter, from })} placeholder="from" />
+            <span>–</span>
+            <TimeBoundInput value={filter.to} onChange={(to) => onChange({ ...filter, to })} placeholder="to" />
+          </div>
+          {tags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="w-12">Tags</span>
+              {tags.map((tag) => (
+                <button
+                  key={tag}
+                  onClick={() => onChange({ ...filter, tags: toggle(filter.tags, tag) })}
+                  className={chipClass(filter.tags.includes(tag))}
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+          )}
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={filter.applyToOutputs}
+              onChange={(e) => onChange({ ...filter, applyToOutputs: e.target.checked })}
+            />
+            Timeline and export use the filtered list
+          </label>
+        </div>
+      )}
+
+      {isActive && (
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span>
+            {resultCount} of {totalCount} annotations match
+          </span>
+          <button
+            onClick={() => onChange({ ...EMPTY_FILTER, sort: filter.sort, applyToOutputs: filter.applyToOutputs })}
+            className="flex items-center gap-1 text-blue-600 hover:text-blue-800"
+          >
+            <X className="w-3 h-3" />
+            Clear filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
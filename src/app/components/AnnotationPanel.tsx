@@ -1,79 +1,429 @@
-import { useState } from 'react';
-import { Download, Pencil, Trash2, Check, X } from 'lucide-react';
+import { useState, useRef, useEffect, useMemo, forwardRef, useImperativeHandle } from 'react';
+import { Download, Pencil, Trash2, Check, X, FileUp, ChevronDown, PlayCircle, Repeat, FileText } from 'lucide-react';
+import { useForm } from 'react-hook-form';
+import { ImportAnnotationsDialog } from './ImportAnnotationsDialog';
+import { FollowUpTurnsEditor } from './FollowUpTurnsEditor';
+import { CustomFieldsEditor } from './CustomFieldsEditor';
+import { AnnotationFilterBar } from './AnnotationFilterBar';
+import { BulkActionsBar } from './BulkActionsBar';
+import { TimestampEditor } from './TimestampEditor';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { parseAnnotationJson, ImportMode, ImportResult } from '../utils/annotationImport';
+import { parseAnnotationTable } from '../utils/annotationTable';
+import { EXPORT_SCHEMA_VERSION } from '../utils/exportSchema';
+import { downloadFile } from '../utils/download';
+import { EXPORT_FORMAT_OPTIONS, ExportFormat } from '../utils/exportFormats';
+import exportJsonSchema from '../schema/annotation-export.schema.json';
+import { normalizeDialogue, retimeAnnotation } from '../utils/annotations';
+import { AnnotationTypeConfig, describeFields, getMissingFields, getTypeConfig } from '../utils/annotationTypes';
+import { CustomFieldDefinition, CustomFieldValues, getFieldFormValues, toFieldValues } from '../utils/customFields';
+import { fillPlaceholders, getTypeDefaultTemplate, PromptLibrary, PromptTemplate } from '../utils/promptTemplates';
+import { formatPreciseTime, formatTimecode, parseTime, validateTimestamp } from '../utils/time';
+import { AnnotationFilter, collectTags } from '../utils/annotationFilter';
+import type { BulkEdit } from '../utils/bulkEdit';
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export interface DialogueTurn {
+  question: string;
+  answer: string;
+}
+
+export type RegionShape = 'rect' | 'polygon' | 'point';
+
+// Position as a fraction of the frame width/height, from the top-left corner
+export interface RegionPoint {
+  x: number;
+  y: number;
+}
+
+// Area of the frame the question refers to. A rect is stored as its top-left
+// and bottom-right corners, a point as a single entry.
+export interface Region {
+  shape: RegionShape;
+  label: string;
+  points: RegionPoint[];
+}
+
+export interface FrameImage {
+  // Path of the full-resolution PNG in a ZIP export; also its key in local storage
+  file: string;
+  width: number;
+  height: number;
+  // JPEG data URL shown on the card
+  thumbnail: string;
+}
 
 export interface Annotation {
   id: string;
   timestamp: number;
-  type: 'VLM' | 'LLM';
+  // Name of one of the project's annotation types
+  type: string;
   question: string;
   requirements: string;
   feedbackDuration: number;
+  // Segment the question refers to; point annotations leave it unset
+  range?: TimeRange;
+  // Gold answer to question
+  answer?: string;
+  // Further question/answer pairs continuing the same dialogue
+  followUps?: DialogueTurn[];
+  // Frame shown at timestamp, when the player knows the video's frame rate
+  frameIndex?: number;
+  frameRate?: number;
+  // Still frame captured on creation, for types that capture frames
+  frame?: FrameImage;
+  // Regions drawn on the paused frame
+  regions?: Region[];
+  // Values of the project's custom fields, keyed by field key
+  fields?: CustomFieldValues;
+}
+
+// Fields the panel collects; App adds id, timestamp and range
+export type AnnotationDraft = Pick<
+  Annotation,
+  'type' | 'question' | 'requirements' | 'feedbackDuration' | 'answer' | 'followUps' | 'fields'
+>;
+
+export interface ProjectAdditions {
+  annotationTypes: AnnotationTypeConfig[];
+  fieldSchema: CustomFieldDefinition[];
 }
 
 interface AnnotationPanelProps {
+  annotationTypes: AnnotationTypeConfig[];
+  fieldSchema: CustomFieldDefinition[];
+  promptLibrary: PromptLibrary;
+  onManageTemplates: () => void;
+  // Values for the template placeholders other than {timestamp}
+  videoName: string;
+  getSubtitleText?: () => string;
   isAnnotating: boolean;
   onStartAnnotation: () => void;
-  onDoneAnnotation: (type: 'VLM' | 'LLM', question: string, requirements: string, feedbackDuration: number, manualTimestamp?: number) => void;
+  onDoneAnnotation: (draft: AnnotationDraft, manualTimestamp?: number) => void;
   annotations: Annotation[];
-  onGenerateJSON: () => void;
+  // The list shows filteredAnnotations; App applies the filter so the timeline and exports can share it
+  filteredAnnotations: Annotation[];
+  filter: AnnotationFilter;
+  onFilterChange: (filter: AnnotationFilter) => void;
+  // ids limits the export to the selected annotations
+  onExport: (format: ExportFormat, ids?: string[]) => void;
   onDeleteAnnotation: (id: string) => void;
+  onBulkEdit: (ids: string[], edit: BulkEdit) => void;
+  onBulkDelete: (ids: string[]) => void;
+  onClearAnnotations: () => void;
   onUpdateAnnotation: (id: string, updatedAnnotation: Omit<Annotation, 'id'>) => void;
+  // additions are the types and fields defined by the imported file that the project lacks
+  onImportAnnotations: (annotations: Annotation[], mode: ImportMode, additions: ProjectAdditions) => void;
   currentTime?: number;
+  // Upper bound for edited timestamps; 0 while unknown
+  duration?: number;
+  // In/out points marked on the player while annotating
+  markIn?: number | null;
+  markOut?: number | null;
+  // Regions drawn on the player for the annotation in progress
+  draftRegionCount?: number;
+  onClearMarks?: () => void;
+  onEditingChange?: (id: string | null) => void;
+  // Clicking a card seeks to it; the play button reviews its feedback window
+  onSeekAnnotation?: (annotation: Annotation) => void;
+  onPlayAnnotationWindow?: (annotation: Annotation) => void;
+  onLoopAnnotation?: (annotation: Annotation) => void;
+}
+
+// Commands App triggers from keyboard shortcuts
+export interface AnnotationPanelHandle {
+  done: () => void;
+  toggleType: () => void;
 }
 
-export function AnnotationPanel({
+export const AnnotationPanel = forwardRef<AnnotationPanelHandle, AnnotationPanelProps>(function AnnotationPanel({
+  annotationTypes,
+  fieldSchema,
+  promptLibrary,
+  onManageTemplates,
+  videoName,
+  getSubtitleText,
   isAnnotating,
   onStartAnnotation,
   onDoneAnnotation,
   annotations,
-  onGenerateJSON,
+  filteredAnnotations,
+  filter,
+  onFilterChange,
+  onExport,
   onDeleteAnnotation,
+  onBulkEdit,
+  onBulkDelete,
+  onClearAnnotations,
   onUpdateAnnotation,
+  onImportAnnotations,
   currentTime,
-}: AnnotationPanelProps) {
-  const [annotationType, setAnnotationType] = useState<'VLM' | 'LLM'>('VLM');
+  duration = 0,
+  markIn = null,
+  markOut = null,
+  draftRegionCount = 0,
+  onClearMarks,
+  onEditingChange,
+  onSeekAnnotation,
+  onPlayAnnotationWindow,
+  onLoopAnnotation,
+}, ref) {
+  const [annotationType, setAnnotationType] = useState(annotationTypes[0].name);
   const [annotationQuestion, setAnnotationQuestion] = useState('');
   const [annotationRequirements, setAnnotationRequirements] = useState('');
   const [feedbackDuration, setFeedbackDuration] = useState(6);
+  const [annotationAnswer, setAnnotationAnswer] = useState('');
+  const [followUps, setFollowUps] = useState<DialogueTurn[]>([]);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editForm, setEditForm] = useState<{
-    type: 'VLM' | 'LLM';
+    // As typed in h:mm:ss.mmm
+    timeText: string;
+    type: string;
     question: string;
     requirements: string;
     feedbackDuration: number;
+    answer: string;
+    followUps: DialogueTurn[];
   } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const createFieldsForm = useForm<CustomFieldValues>({ defaultValues: getFieldFormValues(fieldSchema) });
+  const editFieldsForm = useForm<CustomFieldValues>();
+  const tags = useMemo(() => collectTags(annotations, fieldSchema), [annotations, fieldSchema]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Last checkbox clicked without Shift; Shift-clicks select the range from it
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+
+  useEffect(() => {
+    onEditingChange?.(editingId);
+  }, [editingId]);
+
+  useEffect(() => {
+    createFieldsForm.reset(getFieldFormValues(fieldSchema));
+  }, [fieldSchema]);
+
+  // Only listed annotations stay selected, so bulk actions never touch hidden ones
+  useEffect(() => {
+    setSelectedIds((ids) => {
+      const kept = ids.filter((id) => filteredAnnotations.some((ann) => ann.id === id));
+      return kept.length === ids.length ? ids : kept;
+    });
+  }, [filteredAnnotations]);
+
+  // The selected type may be removed or renamed in the settings
+  useEffect(() => {
+    if (!annotationTypes.some((type) => type.name === annotationType)) {
+      selectType(annotationTypes[0]);
+    }
+  }, [annotationTypes]);
+  const [importFileName, setImportFileName] = useState('');
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [importError, setImportError] = useState('');
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again after fixing it
+    event.target.value = '';
+    if (!file) return;
+    setImportFileName(file.name);
+    const importContext = { types: annotationTypes, fieldSchema };
+    try {
+      const text = await file.text();
+      const name = file.name.toLowerCase();
+      if (name.endsWith('.csv')) {
+        setImportResult(parseAnnotationTable(text, ',', importContext));
+      } else if (name.endsWith('.tsv')) {
+        setImportResult(parseAnnotationTable(text, '\t', importContext));
+      } else {
+        setImportResult(parseAnnotationJson(text, importContext));
+      }
+      setImportError('');
+    } catch (error) {
+      setImportResult(null);
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleConfirmImport = (mode: ImportMode) => {
+    if (importResult) {
+      onImportAnnotations(importResult.annotations, mode, {
+        annotationTypes: importResult.annotationTypes ?? [],
+        fieldSchema: importResult.fieldSchema ?? [],
+      });
+    }
+    handleCloseImport();
+  };
+
+  const handleCloseImport = () => {
+    setImportResult(null);
+    setImportError('');
+  };
+
+  const handleDownloadSchema = () => {
+    downloadFile(
+      JSON.stringify(exportJsonSchema, null, 2),
+      'annotation-export.schema.json',
+      'application/schema+json'
+    );
+  };
+
+  const selectType = (type: AnnotationTypeConfig) => {
+    setAnnotationType(type.name);
+    setFeedbackDuration(type.defaultFeedbackDuration);
+  };
+
+  // Appends to what is already typed, so templates can be combined
+  const insertTemplate = (template: PromptTemplate) => {
+    const values = {
+      timestamp: formatPreciseTime(currentTime ?? 0),
+      subtitle: getSubtitleText?.() ?? '',
+      videoName,
+    };
+    const append = (current: string, addition: string, separator: string) =>
+      !addition ? current : current.trim() ? `${current.trimEnd()}${separator}${addition}` : addition;
+    setAnnotationQuestion((current) => append(current, fillPlaceholders(template.question, values), ' '));
+    setAnnotationRequirements((current) => append(current, fillPlaceholders(template.requirements, values), '\n'));
+  };
+
+  // The type's default template is filled in at START, unless the form was already started by hand
+  useEffect(() => {
+    if (!isAnnotating || annotationQuestion.trim() || annotationRequirements.trim()) return;
+    const template = getTypeDefaultTemplate(promptLibrary, annotationType);
+    if (template) insertTemplate(template);
+  }, [isAnnotating]);
+
+  const missingFields = getMissingFields(
+    {
+      requirements: annotationRequirements,
+      answer: annotationAnswer,
+      hasRange: markIn !== null && markOut !== null && markIn !== markOut,
+      regionCount: draftRegionCount,
+    },
+    getTypeConfig(annotationTypes, annotationType)
+  );
 
+  // Custom fields are validated by react-hook-form; DONE does nothing until they pass
   const handleDone = () => {
-    if (annotationQuestion.trim()) {
-      onDoneAnnotation(annotationType, annotationQuestion, annotationRequirements, feedbackDuration, currentTime);
+    if (!annotationQuestion.trim() || missingFields.length > 0) return;
+    createFieldsForm.handleSubmit((values) => {
+      const fields = toFieldValues(fieldSchema, values);
+      onDoneAnnotation(
+        {
+          type: annotationType,
+          question: annotationQuestion,
+          requirements: annotationRequirements,
+          feedbackDuration,
+          ...normalizeDialogue(annotationAnswer, followUps),
+          ...(fields ? { fields } : {}),
+        },
+        currentTime
+      );
       setAnnotationQuestion('');
       setAnnotationRequirements('');
-      setFeedbackDuration(6);
-    }
+      setFeedbackDuration(getTypeConfig(annotationTypes, annotationType).defaultFeedbackDuration);
+      setAnnotationAnswer('');
+      setFollowUps([]);
+      createFieldsForm.reset(getFieldFormValues(fieldSchema));
+    })();
   };
 
+  useImperativeHandle(ref, () => ({
+    done: () => {
+      if (isAnnotating) handleDone();
+    },
+    toggleType: () => {
+      // Mirrors the type buttons, which are locked while annotating
+      if (!isAnnotating) {
+        const index = annotationTypes.findIndex((type) => type.name === annotationType);
+        selectType(annotationTypes[(index + 1) % annotationTypes.length]);
+      }
+    },
+  }));
+
   const handleEdit = (annotation: Annotation) => {
     setEditingId(annotation.id);
     setEditForm({
+      timeText: formatTimecode(annotation.timestamp),
       type: annotation.type,
       question: annotation.question,
       requirements: annotation.requirements,
       feedbackDuration: annotation.feedbackDuration,
+      answer: annotation.answer ?? '',
+      followUps: annotation.followUps ?? [],
     });
+    editFieldsForm.reset(getFieldFormValues(fieldSchema, annotation.fields));
   };
 
+  const getEditMissingFields = (annotation: Annotation) =>
+    editForm
+      ? getMissingFields(
+          {
+            requirements: editForm.requirements,
+            answer: editForm.answer,
+            hasRange: Boolean(annotation.range),
+            regionCount: annotation.regions?.length ?? 0,
+          },
+          getTypeConfig(annotationTypes, editForm.type)
+        )
+      : [];
+
+  const isEditFormValid = (annotation: Annotation) =>
+    editForm !== null
+    && editForm.question.trim() !== ''
+    && getEditMissingFields(annotation).length === 0
+    && validateTimestamp(editForm.timeText, duration) === null;
+
   const handleSaveEdit = (annotation: Annotation) => {
-    if (editForm && editForm.question.trim()) {
-      onUpdateAnnotation(annotation.id, {
-        timestamp: annotation.timestamp,
+    if (!editForm || !isEditFormValid(annotation)) return;
+    editFieldsForm.handleSubmit((values) => {
+      // Fields the form does not edit (range, frame data) carry over unchanged
+      const { id, answer, followUps, fields: previousFields, ...unedited } = annotation;
+      const fields = toFieldValues(fieldSchema, values);
+      const edited: Annotation = {
+        ...unedited,
+        id,
         type: editForm.type,
         question: editForm.question,
         requirements: editForm.requirements,
         feedbackDuration: editForm.feedbackDuration,
-      });
+        ...normalizeDialogue(editForm.answer, editForm.followUps),
+        ...(fields ? { fields } : {}),
+      };
+      // Compared as displayed, so saving without touching the time keeps its full precision;
+      // a moved timestamp carries the segment and frame index along
+      const isRetimed = editForm.timeText.trim() !== formatTimecode(annotation.timestamp);
+      onUpdateAnnotation(id, isRetimed ? retimeAnnotation(edited, parseTime(editForm.timeText)) : edited);
       setEditingId(null);
       setEditForm(null);
+    })();
+  };
+
+  const handleToggleSelected = (id: string, extendRange: boolean) => {
+    const anchorIndex = filteredAnnotations.findIndex((ann) => ann.id === selectionAnchor);
+    if (extendRange && anchorIndex !== -1) {
+      const index = filteredAnnotations.findIndex((ann) => ann.id === id);
+      const range = filteredAnnotations
+        .slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+        .map((ann) => ann.id);
+      setSelectedIds([...new Set([...selectedIds, ...range])]);
+      return;
     }
+    setSelectedIds(selectedIds.includes(id) ? selectedIds.filter((selected) => selected !== id) : [...selectedIds, id]);
+    setSelectionAnchor(id);
+  };
+
+  const handleBulkDelete = () => {
+    onBulkDelete(selectedIds);
+    setSelectedIds([]);
   };
 
   const handleCancelEdit = () => {
@@ -93,35 +443,54 @@ export function AnnotationPanel({
 
       {/* Annotation Type Selection */}
       <div className="mb-4">
-        <div className="flex gap-2">
-          <button
-            onClick={() => setAnnotationType('VLM')}
-            disabled={isAnnotating}
-            className={`flex-1 py-2 px-4 rounded-lg transition-colors ${
-              annotationType === 'VLM'
-                ? 'bg-blue-600 text-white'
-                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-            } ${isAnnotating ? 'opacity-50 cursor-not-allowed' : ''}`}
-          >
-            VLM
-          </button>
-          <button
-            onClick={() => setAnnotationType('LLM')}
-            disabled={isAnnotating}
-            className={`flex-1 py-2 px-4 rounded-lg transition-colors ${
-              annotationType === 'LLM'
-                ? 'bg-blue-600 text-white'
-                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-            } ${isAnnotating ? 'opacity-50 cursor-not-allowed' : ''}`}
-          >
-            LLM
-          </button>
+        <div className="flex flex-wrap gap-2">
+          {annotationTypes.map((type) => (
+            <button
+              key={type.name}
+              onClick={() => selectType(type)}
+              disabled={isAnnotating}
+              style={annotationType === type.name ? { backgroundColor: type.color } : undefined}
+              className={`flex-1 py-2 px-4 rounded-lg transition-colors ${
+                annotationType === type.name
+                  ? 'text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              } ${isAnnotating ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              {type.name}
+            </button>
+          ))}
         </div>
       </div>
 
       {/* Annotation Input */}
       <div className="mb-4">
-        <label className="block text-sm text-gray-700 mb-2">Question & Requirements</label>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm text-gray-700">Question & Requirements</label>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button className="flex items-center gap-1 py-1 px-2 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors">
+                <FileText className="w-3 h-3" />
+                Templates
+                <ChevronDown className="w-3 h-3" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="max-w-72">
+              {promptLibrary.templates.map((template) => (
+                <DropdownMenuItem
+                  key={template.id}
+                  onSelect={() => insertTemplate(template)}
+                  disabled={!isAnnotating}
+                  className="flex-col items-start gap-0"
+                >
+                  <span>{template.name}</span>
+                  <span className="text-xs text-gray-500 line-clamp-1">{template.question || template.requirements}</span>
+                </DropdownMenuItem>
+              ))}
+              {promptLibrary.templates.length > 0 && <DropdownMenuSeparator />}
+              <DropdownMenuItem onSelect={onManageTemplates}>Manage templates…</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
         <div className="grid grid-cols-2 gap-3">
           <div>
             <label className="block text-xs text-gray-600 mb-1">Question</label>
@@ -146,6 +515,51 @@ export function AnnotationPanel({
         </div>
       </div>
 
+      {/* Reference Answer & Follow-up Turns */}
+      <div className="mb-4">
+        <label className="block text-xs text-gray-600 mb-1">Reference Answer</label>
+        <textarea
+          value={annotationAnswer}
+          onChange={(e) => setAnnotationAnswer(e.target.value)}
+          disabled={!isAnnotating}
+          placeholder={isAnnotating ? "Enter the gold answer (optional)..." : "Click START to begin"}
+          className="w-full h-20 p-3 mb-2 border border-gray-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-500"
+        />
+        <FollowUpTurnsEditor turns={followUps} onChange={setFollowUps} disabled={!isAnnotating} />
+      </div>
+
+      {/* Custom Fields */}
+      {fieldSchema.length > 0 && (
+        <div className="mb-4">
+          <CustomFieldsEditor form={createFieldsForm} schema={fieldSchema} disabled={!isAnnotating} />
+        </div>
+      )}
+
+      {/* Segment (in/out points) */}
+      {isAnnotating && (
+        <div className="mb-4 flex items-center justify-between p-2 text-sm bg-gray-50 border border-gray-200 rounded-lg">
+          <span className="text-gray-600">
+            Segment:{' '}
+            {markIn === null && markOut === null ? (
+              <span className="text-gray-400">none (mark IN/OUT on the player)</span>
+            ) : (
+              <span className="font-mono text-gray-800">
+                {markIn === null ? '--:--' : formatTime(markIn)} – {markOut === null ? '--:--' : formatTime(markOut)}
+              </span>
+            )}
+          </span>
+          {(markIn !== null || markOut !== null) && (
+            <button
+              onClick={onClearMarks}
+              className="flex items-center gap-1 py-1 px-2 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+            >
+              <X className="w-3 h-3" />
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Feedback Duration Input */}
       <div className="mb-4">
         <label className="block text-sm text-gray-700 mb-2">Feedback Duration (seconds)</label>
@@ -173,53 +587,90 @@ export function AnnotationPanel({
         ) : (
           <button
             onClick={handleDone}
-            disabled={!annotationQuestion.trim()}
+            disabled={!annotationQuestion.trim() || missingFields.length > 0}
             className="flex-1 py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             DONE
           </button>
         )}
       </div>
+      {isAnnotating && missingFields.length > 0 && (
+        <p className="-mt-4 mb-6 text-xs text-amber-700">
+          {annotationType} annotations require: {describeFields(missingFields)}
+        </p>
+      )}
 
       {/* Annotations List */}
       <div className="flex-1 overflow-y-auto mb-4 space-y-3">
-        <h3 className="text-sm text-gray-600 mb-2">
-          Annotations ({annotations.length})
-        </h3>
-        {annotations.length === 0 ? (
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm text-gray-600">
+            Annotations ({annotations.length})
+          </h3>
+          {annotations.length > 0 && (
+            <button
+              onClick={onClearAnnotations}
+              className="flex items-center gap-1 text-xs text-gray-500 hover:text-red-600 transition-colors"
+              title="Remove every annotation (can be undone)"
+            >
+              <Trash2 className="w-3 h-3" />
+              Clear all
+            </button>
+          )}
+        </div>
+        {annotations.length > 0 && (
+          <AnnotationFilterBar
+            filter={filter}
+            onChange={onFilterChange}
+            annotationTypes={annotationTypes}
+            tags={tags}
+            resultCount={filteredAnnotations.length}
+            totalCount={annotations.length}
+          />
+        )}
+        {selectedIds.length > 0 && (
+          <BulkActionsBar
+            selected={filteredAnnotations.filter((ann) => selectedIds.includes(ann.id))}
+            listedCount={filteredAnnotations.length}
+            annotationTypes={annotationTypes}
+            onSelectAll={() => setSelectedIds(filteredAnnotations.map((ann) => ann.id))}
+            onClearSelection={() => setSelectedIds([])}
+            onApply={(edit) => onBulkEdit(selectedIds, edit)}
+            onDelete={handleBulkDelete}
+            onExport={(format) => onExport(format, selectedIds)}
+          />
+        )}
+        {filteredAnnotations.length === 0 ? (
           <p className="text-sm text-gray-400 text-center py-8">
-            No annotations yet
+            {annotations.length === 0 ? 'No annotations yet' : 'No annotations match the filters'}
           </p>
         ) : (
-          annotations.map((annotation) => (
+          filteredAnnotations.map((annotation) => (
             <div
               key={annotation.id}
-              className="p-3 bg-gray-50 rounded-lg border border-gray-200"
+              onClick={editingId === annotation.id ? undefined : () => onSeekAnnotation?.(annotation)}
+              className={`p-3 bg-gray-50 rounded-lg border border-gray-200 ${
+                editingId === annotation.id ? '' : 'cursor-pointer hover:border-blue-300 transition-colors'
+              }`}
+              title={editingId === annotation.id ? undefined : 'Click to jump to this annotation'}
             >
               {editingId === annotation.id && editForm ? (
                 // Edit Mode
                 <div className="space-y-3">
-                  <div className="flex gap-2">
-                    <button
-                      onClick={() => setEditForm({ ...editForm, type: 'VLM' })}
-                      className={`flex-1 py-1 px-3 text-xs rounded-lg transition-colors ${
-                        editForm.type === 'VLM'
-                          ? 'bg-purple-600 text-white'
-                          : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                      }`}
-                    >
-                      VLM
-                    </button>
-                    <button
-                      onClick={() => setEditForm({ ...editForm, type: 'LLM' })}
-                      className={`flex-1 py-1 px-3 text-xs rounded-lg transition-colors ${
-                        editForm.type === 'LLM'
-                          ? 'bg-blue-600 text-white'
-                          : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                      }`}
-                    >
-                      LLM
-                    </button>
+                  <div className="flex flex-wrap gap-2">
+                    {annotationTypes.map((type) => (
+                      <button
+                        key={type.name}
+                        onClick={() => setEditForm({ ...editForm, type: type.name })}
+                        style={editForm.type === type.name ? { backgroundColor: type.color } : undefined}
+                        className={`flex-1 py-1 px-3 text-xs rounded-lg transition-colors ${
+                          editForm.type === type.name
+                            ? 'text-white'
+                            : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                        }`}
+                      >
+                        {type.name}
+                      </button>
+                    ))}
                   </div>
                   <div>
                     <label className="block text-xs text-gray-600 mb-1">Question</label>
@@ -237,6 +688,26 @@ export function AnnotationPanel({
                       className="w-full h-16 p-2 text-sm border border-gray-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
                     />
                   </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Reference Answer</label>
+                    <textarea
+                      value={editForm.answer}
+                      onChange={(e) => setEditForm({ ...editForm, answer: e.target.value })}
+                      className="w-full h-16 p-2 text-sm border border-gray-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <FollowUpTurnsEditor
+                    turns={editForm.followUps}
+                    onChange={(turns) => setEditForm({ ...editForm, followUps: turns })}
+                    compact
+                  />
+                  <CustomFieldsEditor form={editFieldsForm} schema={fieldSchema} />
+                  <TimestampEditor
+                    text={editForm.timeText}
+                    onChange={(timeText) => setEditForm({ ...editForm, timeText })}
+                    duration={duration}
+                    currentTime={currentTime ?? 0}
+                  />
                   <div>
                     <label className="block text-xs text-gray-600 mb-1">Feedback Duration (s)</label>
                     <input
@@ -248,6 +719,11 @@ export function AnnotationPanel({
                       className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                     />
                   </div>
+                  {getEditMissingFields(annotation).length > 0 && (
+                    <p className="text-xs text-amber-700">
+                      {editForm.type} annotations require: {describeFields(getEditMissingFields(annotation))}
+                    </p>
+                  )}
                   <div className="flex gap-2 justify-end">
                     <button
                       onClick={handleCancelEdit}
@@ -258,7 +734,7 @@ export function AnnotationPanel({
                     </button>
                     <button
                       onClick={() => handleSaveEdit(annotation)}
-                      disabled={!editForm.question.trim()}
+                      disabled={!isEditFormValid(annotation)}
                       className="flex items-center gap-1 py-1 px-3 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       <Check className="w-4 h-4" />
@@ -270,19 +746,47 @@ export function AnnotationPanel({
                 // View Mode
                 <>
                   <div className="flex items-center justify-between mb-2">
-                    <span
-                      className={`px-2 py-1 text-xs rounded ${
-                        annotation.type === 'VLM'
-                          ? 'bg-purple-100 text-purple-700'
-                          : 'bg-blue-100 text-blue-700'
-                      }`}
-                    >
-                      {annotation.type}
-                    </span>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(annotation.id)}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={(e) => handleToggleSelected(annotation.id, (e.nativeEvent as MouseEvent).shiftKey)}
+                        title="Select (Shift-click to select a range)"
+                      />
+                      <span
+                        className="px-2 py-1 text-xs rounded"
+                        style={{
+                          color: getTypeConfig(annotationTypes, annotation.type).color,
+                          backgroundColor: `${getTypeConfig(annotationTypes, annotation.type).color}1a`,
+                        }}
+                      >
+                        {annotation.type}
+                      </span>
+                    </div>
                     <span className="text-sm text-gray-600">
-                      {formatTime(annotation.timestamp)} | {annotation.feedbackDuration}s
+                      {annotation.range
+                        ? `${formatTime(annotation.range.start)}–${formatTime(annotation.range.end)}`
+                        : formatTime(annotation.timestamp)}{' '}
+                      {annotation.frameIndex !== undefined && (
+                        <span className="font-mono text-xs text-gray-400">#{annotation.frameIndex} </span>
+                      )}
+                      | {annotation.feedbackDuration}s
+                      {annotation.regions && (
+                        <span className="ml-1 text-xs text-gray-400">
+                          | {annotation.regions.length} region{annotation.regions.length === 1 ? '' : 's'}
+                        </span>
+                      )}
                     </span>
                   </div>
+                  {annotation.frame && (
+                    <img
+                      src={annotation.frame.thumbnail}
+                      alt={`Frame at ${formatTime(annotation.timestamp)}`}
+                      title={`${annotation.frame.width}×${annotation.frame.height}`}
+                      className="w-40 mb-2 rounded border border-gray-200"
+                    />
+                  )}
                   <div className="mb-1">
                     <span className="text-xs text-gray-500">Q:</span>
                     <p className="text-sm text-gray-700">{annotation.question}</p>
@@ -293,7 +797,56 @@ export function AnnotationPanel({
                       <p className="text-sm text-gray-600">{annotation.requirements}</p>
                     </div>
                   )}
-                  <div className="flex gap-2 mt-2">
+                  {annotation.answer && (
+                    <div className="mb-2">
+                      <span className="text-xs text-gray-500">A:</span>
+                      <p className="text-sm text-gray-700">{annotation.answer}</p>
+                    </div>
+                  )}
+                  {annotation.followUps?.map((turn, index) => (
+                    <div key={index} className="mb-2 pl-3 border-l-2 border-gray-200">
+                      <p className="text-sm text-gray-700">
+                        <span className="text-xs text-gray-500">Q{index + 2}:</span> {turn.question}
+                      </p>
+                      {turn.answer && (
+                        <p className="text-sm text-gray-600">
+                          <span className="text-xs text-gray-500">A{index + 2}:</span> {turn.answer}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                  {annotation.fields && (
+                    <div className="mb-2 flex flex-wrap gap-1">
+                      {fieldSchema
+                        .filter((field) => annotation.fields?.[field.key] !== undefined)
+                        .map((field) => {
+                          const value = annotation.fields![field.key];
+                          return (
+                            <span key={field.key} className="px-2 py-0.5 text-xs bg-white border border-gray-200 text-gray-600 rounded">
+                              {field.label}:{' '}
+                              {Array.isArray(value) ? value.join(', ') : typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value}
+                            </span>
+                          );
+                        })}
+                    </div>
+                  )}
+                  <div className="flex gap-2 mt-2" onClick={(e) => e.stopPropagation()}>
+                    <button
+                      onClick={() => onPlayAnnotationWindow?.(annotation)}
+                      className="flex items-center gap-1 py-1 px-2 text-xs bg-green-100 text-green-700 rounded hover:bg-green-200 transition-colors"
+                      title="Play the feedback window, then pause"
+                    >
+                      <PlayCircle className="w-3 h-3" />
+                      Play {annotation.feedbackDuration}s
+                    </button>
+                    <button
+                      onClick={() => onLoopAnnotation?.(annotation)}
+                      className="flex items-center gap-1 py-1 px-2 text-xs bg-green-100 text-green-700 rounded hover:bg-green-200 transition-colors"
+                      title="Loop the feedback window as an A-B loop"
+                    >
+                      <Repeat className="w-3 h-3" />
+                      Loop
+                    </button>
                     <button
                       onClick={() => handleEdit(annotation)}
                       className="flex items-center gap-1 py-1 px-2 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
@@ -316,15 +869,71 @@ export function AnnotationPanel({
         )}
       </div>
 
-      {/* Generate JSON Button */}
+      {/* Import / Generate JSON Buttons */}
+      <div className="flex gap-3">
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="py-3 px-4 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors flex items-center justify-center gap-2"
+        >
+          <FileUp className="w-5 h-5" />
+          IMPORT
+        </button>
+        <div className="flex-1 flex">
+          <button
+            onClick={() => onExport('json')}
+            disabled={annotations.length === 0}
+            className="flex-1 py-3 px-4 bg-gray-900 text-white rounded-l-lg hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            <Download className="w-5 h-5" />
+            GENERATE JSON
+          </button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                disabled={annotations.length === 0}
+                title="More export formats"
+                className="py-3 px-3 bg-gray-900 text-white rounded-r-lg border-l border-gray-700 hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <ChevronDown className="w-5 h-5" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {EXPORT_FORMAT_OPTIONS.map((option) => (
+                <DropdownMenuItem
+                  key={option.format}
+                  onSelect={() => onExport(option.format)}
+                  className="flex-col items-start gap-0"
+                >
+                  <span className="font-medium">{option.label}</span>
+                  <span className="text-xs text-gray-500">{option.description}</span>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
       <button
-        onClick={onGenerateJSON}
-        disabled={annotations.length === 0}
-        className="w-full py-3 px-4 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        onClick={handleDownloadSchema}
+        className="mt-2 text-xs text-gray-500 hover:text-gray-700 underline self-center"
       >
-        <Download className="w-5 h-5" />
-        GENERATE JSON
+        Export format: schema v{EXPORT_SCHEMA_VERSION} (download JSON Schema)
       </button>
+      <input
+        ref={importInputRef}
+        type="file"
+        accept=".json,.csv,.tsv"
+        onChange={handleImportFile}
+        className="hidden"
+      />
+
+      <ImportAnnotationsDialog
+        fileName={importFileName}
+        result={importResult}
+        error={importError}
+        existingCount={annotations.length}
+        onConfirm={handleConfirmImport}
+        onClose={handleCloseImport}
+      />
     </div>
   );
-}
\ No newline at end of file
+});
@@ -0,0 +1,176 @@
+import { useEffect, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+import type { Annotation } from './AnnotationPanel';
+import { AnnotationTypeConfig, getTypeConfig } from '../utils/annotationTypes';
+
+interface AnnotationTimelineProps {
+  annotations: Annotation[];
+  annotationTypes: AnnotationTypeConfig[];
+  duration: number;
+  currentTime: number;
+  activeId?: string | null;
+  onSeek: (time: number) => void;
+  onRetime: (id: string, timestamp: number) => void;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 32;
+// Pointer movement below this many pixels counts as a click, not a drag
+const DRAG_THRESHOLD_PX = 3;
+
+interface DragState {
+  id: string;
+  startX: number;
+  time: number;
+  moved: boolean;
+}
+
+export function AnnotationTimeline({
+  annotations,
+  annotationTypes,
+  duration,
+  currentTime,
+  activeId,
+  onSeek,
+  onRetime,
+}: AnnotationTimelineProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [zoom, setZoom] = useState(1);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  // Keep the playhead visible after zooming
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (scroller && duration > 0) {
+      const playheadX = (currentTime / duration) * scroller.scrollWidth;
+      scroller.scrollLeft = playheadX - scroller.clientWidth / 2;
+    }
+  }, [zoom]);
+
+  const timeAtClientX = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    const ratio = (clientX - rect.left) / rect.width;
+    return Math.min(Math.max(ratio, 0), 1) * duration;
+  };
+
+  const toPercent = (time: number) => `${(Math.min(Math.max(time, 0), duration) / duration) * 100}%`;
+
+  const handleMarkerPointerDown = (e: React.PointerEvent, annotation: Annotation) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ id: annotation.id, startX: e.clientX, time: annotation.timestamp, moved: false });
+  };
+
+  const handleMarkerPointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const moved = drag.moved || Math.abs(e.clientX - drag.startX) > DRAG_THRESHOLD_PX;
+    setDrag({ ...drag, moved, time: moved ? timeAtClientX(e.clientX) : drag.time });
+  };
+
+  const handleMarkerPointerUp = (annotation: Annotation) => {
+    if (!drag) return;
+    if (drag.moved) {
+      onRetime(annotation.id, drag.time);
+    } else {
+      onSeek(annotation.timestamp);
+    }
+    setDrag(null);
+  };
+
+  const formatTime = (time: number) => {
+    const minutes = Math.floor(time / 60);
+    const seconds = Math.floor(time % 60);
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  if (duration <= 0) {
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 p-4 text-sm text-gray-400">
+        Timeline will appear once the video duration is known.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-600">Timeline ({annotations.length})</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setZoom(Math.max(MIN_ZOOM, zoom / 2))}
+            disabled={zoom <= MIN_ZOOM}
+            className="p-1 rounded hover:bg-gray-100 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Zoom out"
+          >
+            <ZoomOut className="w-4 h-4 text-gray-700" />
+          </button>
+          <span className="w-10 text-center text-xs text-gray-500">{zoom}x</span>
+          <button
+            onClick={() => setZoom(Math.min(MAX_ZOOM, zoom * 2))}
+            disabled={zoom >= MAX_ZOOM}
+            className="p-1 rounded hover:bg-gray-100 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Zoom in"
+          >
+            <ZoomIn className="w-4 h-4 text-gray-700" />
+          </button>
+        </div>
+      </div>
+
+      <div ref={scrollRef} className="overflow-x-auto">
+        <div
+          ref={trackRef}
+          className="relative h-14 bg-gray-100 rounded cursor-pointer select-none"
+          style={{ width: `${zoom * 100}%` }}
+          onClick={(e) => onSeek(timeAtClientX(e.clientX))}
+        >
+          {annotations.map((annotation) => {
+            const isDragging = drag?.id === annotation.id;
+            const time = isDragging ? drag.time : annotation.timestamp;
+            const isActive = annotation.id === activeId;
+            const color = getTypeConfig(annotationTypes, annotation.type).color;
+            return (
+              <div key={annotation.id}>
+                {/* Feedback window */}
+                <div
+                  className="absolute top-8 h-2 rounded-sm pointer-events-none opacity-50"
+                  style={{
+                    backgroundColor: color,
+                    left: toPercent(time),
+                    width: `calc(${toPercent(time + annotation.feedbackDuration)} - ${toPercent(time)})`,
+                  }}
+                />
+                {/* Marker */}
+                <div
+                  className={`absolute top-1 bottom-1 w-1.5 -ml-[3px] rounded-full cursor-ew-resize ${
+                    isActive ? 'ring-2 ring-amber-400 ring-offset-1 z-10' : ''
+                  } ${isDragging ? 'opacity-70 z-20' : ''}`}
+                  style={{ left: toPercent(time), backgroundColor: color }}
+                  title={`${annotation.type} ${formatTime(time)}: ${annotation.question}`}
+                  onClick={(e) => e.stopPropagation()}
+                  onPointerDown={(e) => handleMarkerPointerDown(e, annotation)}
+                  onPointerMove={handleMarkerPointerMove}
+                  onPointerUp={() => handleMarkerPointerUp(annotation)}
+                  onPointerCancel={() => setDrag(null)}
+                />
+              </div>
+            );
+          })}
+
+          {/* Playhead */}
+          <div
+            className="absolute top-0 bottom-0 w-0.5 bg-red-500 pointer-events-none"
+            style={{ left: toPercent(currentTime) }}
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>0:00</span>
+        {drag?.moved ? <span className="text-amber-600">{formatTime(drag.time)}</span> : null}
+        <span>{formatTime(duration)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  AnnotationTypeConfig,
+  REQUIRED_FIELD_OPTIONS,
+  RequiredField,
+  validateTypeConfigs,
+} from '../utils/annotationTypes';
+
+interface AnnotationTypeSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  types: AnnotationTypeConfig[];
+  // Number of annotations per type name; types in use cannot be removed
+  usage: Record<string, number>;
+  // renames maps old type names to new ones so annotations can follow
+  onSave: (types: AnnotationTypeConfig[], renames: Record<string, string>) => void;
+}
+
+interface TypeRow {
+  // Name the type had when the dialog opened; null for added types
+  original: string | null;
+  config: AnnotationTypeConfig;
+}
+
+export function AnnotationTypeSettingsDialog({
+  open,
+  onOpenChange,
+  types,
+  usage,
+  onSave,
+}: AnnotationTypeSettingsDialogProps) {
+  const [rows, setRows] = useState<TypeRow[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setRows(types.map((config) => ({ original: config.name, config })));
+    }
+  }, [open, types]);
+
+  const configs = rows.map((row) => ({ ...row.config, name: row.config.name.trim() }));
+  const errors = validateTypeConfigs(configs);
+
+  const updateRow = (index: number, changes: Partial<AnnotationTypeConfig>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, config: { ...row.config, ...changes } } : row)));
+  };
+
+  const toggleRequired = (index: number, field: RequiredField) => {
+    const current = rows[index].config.requiredFields;
+    updateRow(index, {
+      requiredFields: current.includes(field) ? current.filter((f) => f !== field) : [...current, field],
+    });
+  };
+
+  const handleAdd = () => {
+    setRows([
+      ...rows,
+      {
+        original: null,
+        config: {
+          name: '',
+          color: '#0d9488',
+          requiredFields: [],
+          defaultFeedbackDuration: 6,
+          template: 'text',
+          captureFrame: false,
+        },
+      },
+    ]);
+  };
+
+  const handleSave = () => {
+    const renames: Record<string, string> = {};
+    rows.forEach((row, index) => {
+      if (row.original !== null && row.original !== configs[index].name) {
+        renames[row.original] = configs[index].name;
+      }
+    });
+    onSave(configs, renames);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Annotation Types</DialogTitle>
+          <DialogDescription>
+            Types are saved with the project and included in JSON exports. Renaming a type updates its annotations.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-3">
+          {rows.map((row, index) => {
+            const used = row.original !== null ? usage[row.original] ?? 0 : 0;
+            return (
+              <div key={index} className="p-3 border border-gray-200 rounded-lg space-y-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    value={row.config.color}
+                    onChange={(e) => updateRow(index, { color: e.target.value })}
+                    className="w-8 h-8 p-0 border border-gray-300 rounded cursor-pointer"
+                    title="Color"
+                  />
+                  <input
+                    type="text"
+                    value={row.config.name}
+                    onChange={(e) => updateRow(index, { name: e.target.value })}
+                    placeholder="Type name"
+                    className="flex-1 p-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <span className="text-xs text-gray-500">{used} used</span>
+                  <button
+                    onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                    disabled={used > 0}
+                    className="p-2 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    title={used > 0 ? 'Types used by annotations cannot be removed' : 'Remove type'}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-3 gap-2 text-xs text-gray-600">
+                  <label className="flex flex-col gap-1">
+                    Default feedback (s)
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={row.config.defaultFeedbackDuration}
+                      onChange={(e) => updateRow(index, { defaultFeedbackDuration: Number(e.target.value) })}
+                      className="p-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </label>
+                  <label className="flex flex-col gap-1">
+                    JSONL template
+                    <select
+                      value={row.config.template}
+                      onChange={(e) => updateRow(index, { template: e.target.value as AnnotationTypeConfig['template'] })}
+                      className="p-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="video">Video clip</option>
+                      <option value="text">Text only</option>
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 mt-5">
+                    <input
+                      type="checkbox"
+                      checked={row.config.captureFrame}
+                      onChange={(e) => updateRow(index, { captureFrame: e.target.checked })}
+                    />
+                    Capture frame
+                  </label>
+                </div>
+                <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+                  <span>Required:</span>
+                  {REQUIRED_FIELD_OPTIONS.map(({ field, label }) => (
+                    <label key={field} className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={row.config.requiredFields.includes(field)}
+                        onChange={() => toggleRequired(index, field)}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+          <button
+            onClick={handleAdd}
+            className="flex items-center gap-1 py-1 px-2 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+          >
+            <Plus className="w-3 h-3" />
+            Add type
+          </button>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="space-y-1">
+            {errors.map((message) => (
+              <p key={message} className="flex items-center gap-2 text-xs text-red-600">
+                <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                {message}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <button
+            onClick={() => onOpenChange(false)}
+            className="py-2 px-4 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={errors.length > 0}
+            className="py-2 px-4 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,252 @@
+import { useState } from 'react';
+import { Download, Trash2, X } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import type { Annotation } from './AnnotationPanel';
+import type { AnnotationTypeConfig } from '../utils/annotationTypes';
+import { BulkEdit, countMatches, getBulkEditMissingFields, TextField, TextReplacement } from '../utils/bulkEdit';
+import { EXPORT_FORMAT_OPTIONS, ExportFormat } from '../utils/exportFormats';
+
+interface BulkActionsBarProps {
+  selected: Annotation[];
+  // Annotations currently listed, which "Select all" selects
+  listedCount: number;
+  annotationTypes: AnnotationTypeConfig[];
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onApply: (edit: BulkEdit) => void;
+  onDelete: () => void;
+  onExport: (format: ExportFormat) => void;
+}
+
+type BulkAction = 'type' | 'duration' | 'replace' | 'shift';
+
+const ACTION_LABELS: Record<BulkAction, string> = {
+  type: 'Type',
+  duration: 'Feedback',
+  replace: 'Find & replace',
+  shift: 'Shift time',
+};
+
+const TEXT_FIELD_LABELS: Record<TextField, string> = {
+  question: 'Question',
+  requirements: 'Requirements',
+};
+
+export function BulkActionsBar({
+  selected,
+  listedCount,
+  annotationTypes,
+  onSelectAll,
+  onClearSelection,
+  onApply,
+  onDelete,
+  onExport,
+}: BulkActionsBarProps) {
+  const [action, setAction] = useState<BulkAction>('type');
+  const [type, setType] = useState(annotationTypes[0].name);
+  const [duration, setDuration] = useState(6);
+  const [offset, setOffset] = useState(0);
+  const [replacement, setReplacement] = useState<TextReplacement>({
+    find: '',
+    replace: '',
+    fields: ['question', 'requirements'],
+    matchCase: false,
+  });
+
+  const matchCount = action === 'replace' ? countMatches(selected, replacement) : 0;
+  // Annotations the type change skips because they lack the type's required fields
+  const skippedCount =
+    action === 'type'
+      ? selected.filter(
+          (annotation) => getBulkEditMissingFields(annotation, { kind: 'setType', type }, annotationTypes).length > 0
+        ).length
+      : 0;
+
+  const toggleField = (field: TextField) => {
+    const { fields } = replacement;
+    setReplacement({
+      ...replacement,
+      fields: fields.includes(field) ? fields.filter((f) => f !== field) : [...fields, field],
+    });
+  };
+
+  const inputClass = 'p-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const applyClass =
+    'py-1.5 px-3 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="mb-3 p-2 bg-blue-50 border border-blue-200 rounded-lg space-y-2 text-xs text-gray-700">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">{selected.length} selected</span>
+        <div className="flex items-center gap-2">
+          {selected.length < listedCount && (
+            <button onClick={onSelectAll} className="text-blue-600 hover:text-blue-800">
+              Select all {listedCount}
+            </button>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button className="flex items-center gap-1 py-1 px-2 bg-white border border-gray-300 rounded hover:bg-gray-100 transition-colors">
+                <Download className="w-3 h-3" />
+                Export
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {EXPORT_FORMAT_OPTIONS.map((option) => (
+                <DropdownMenuItem key={option.format} onSelect={() => onExport(option.format)}>
+                  {option.label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <button
+            onClick={onDelete}
+            className="flex items-center gap-1 py-1 px-2 bg-white border border-red-200 text-red-600 rounded hover:bg-red-50 transition-colors"
+          >
+            <Trash2 className="w-3 h-3" />
+            Delete
+          </button>
+          <button onClick={onClearSelection} className="p-1 text-gray-500 hover:text-gray-800" title="Clear selection">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-1">
+        {(Object.keys(ACTION_LABELS) as BulkAction[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => setAction(key)}
+            className={`py-1 px-2 rounded transition-colors ${
+              action === key ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {ACTION_LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      {action === 'type' && (
+        <div className="flex items-center gap-2">
+          <select value={type} onChange={(e) => setType(e.target.value)} className={`flex-1 ${inputClass}`}>
+            {annotationTypes.map((config) => (
+              <option key={config.name} value={config.name}>
+                {config.name}
+              </option>
+            ))}
+          </select>
+          {skippedCount > 0 && (
+            <span className="text-amber-700" title="Fill in the fields this type requires first">
+              {skippedCount} skipped: missing required fields
+            </span>
+          )}
+          <button
+            onClick={() => onApply({ kind: 'setType', type })}
+            disabled={skippedCount === selected.length}
+            className={applyClass}
+          >
+            Set type
+          </button>
+        </div>
+      )}
+
+      {action === 'duration' && (
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={duration}
+            onChange={(e) => setDuration(Number(e.target.value))}
+            className={`flex-1 ${inputClass}`}
+          />
+          <span>s</span>
+          <button
+            onClick={() => onApply({ kind: 'setFeedbackDuration', duration })}
+            disabled={!(duration >= 0)}
+            className={applyClass}
+          >
+            Set duration
+          </button>
+        </div>
+      )}
+
+      {action === 'shift' && (
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            step="0.1"
+            value={offset}
+            onChange={(e) => setOffset(Number(e.target.value))}
+            className={`flex-1 ${inputClass}`}
+            title="Seconds; negative values move annotations earlier"
+          />
+          <span>s</span>
+          <button
+            onClick={() => onApply({ kind: 'shiftTime', offset })}
+            disabled={!offset}
+            className={applyClass}
+          >
+            Shift
+          </button>
+        </div>
+      )}
+
+      {action === 'replace' && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={replacement.find}
+              onChange={(e) => setReplacement({ ...replacement, find: e.target.value })}
+              placeholder="Find"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={replacement.replace}
+              onChange={(e) => setReplacement({ ...replacement, replace: e.target.value })}
+              placeholder="Replace with"
+              className={inputClass}
+            />
+          </div>
+          <div className="flex items-center gap-3">
+            {(Object.keys(TEXT_FIELD_LABELS) as TextField[]).map((field) => (
+              <label key={field} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={replacement.fields.includes(field)}
+                  onChange={() => toggleField(field)}
+                />
+                {TEXT_FIELD_LABELS[field]}
+              </label>
+            ))}
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={replacement.matchCase}
+                onChange={(e) => setReplacement({ ...replacement, matchCase: e.target.checked })}
+              />
+              Match case
+            </label>
+            <span className="flex-1 text-right text-gray-500">
+              {replacement.find ? `${matchCount} match${matchCount === 1 ? '' : 'es'}` : ''}
+            </span>
+            <button
+              onClick={() => onApply({ kind: 'replaceText', replacement })}
+              disabled={matchCount === 0}
+              className={applyClass}
+            >
+              Replace all
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import type { UseFormReturn } from 'react-hook-form';
+import { X } from 'lucide-react';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from './ui/form';
+import { Input } from './ui/input';
+import { Checkbox } from './ui/checkbox';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { CustomFieldDefinition, CustomFieldValues, validateFieldValue } from '../utils/customFields';
+
+interface CustomFieldsEditorProps {
+  form: UseFormReturn<CustomFieldValues>;
+  schema: CustomFieldDefinition[];
+  disabled?: boolean;
+}
+
+interface TagInputProps {
+  value: string[];
+  onChange: (value: string[]) => void;
+  disabled?: boolean;
+}
+
+// Enter or comma turns the typed text into a tag
+function TagInput({ value, onChange, disabled }: TagInputProps) {
+  const [draft, setDraft] = useState('');
+
+  const commit = () => {
+    const tag = draft.trim();
+    if (tag && !value.includes(tag)) {
+      onChange([...value, tag]);
+    }
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 min-h-9 px-2 py-1 border border-gray-300 rounded-md">
+      {value.map((tag) => (
+        <span key={tag} className="flex items-center gap-1 px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded">
+          {tag}
+          {!disabled && (
+            <button type="button" onClick={() => onChange(value.filter((t) => t !== tag))} title="Remove tag">
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </span>
+      ))}
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            commit();
+          } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+            onChange(value.slice(0, -1));
+          }
+        }}
+        onBlur={commit}
+        disabled={disabled}
+        placeholder={value.length === 0 ? 'Type and press Enter' : ''}
+        className="flex-1 min-w-16 text-sm outline-none bg-transparent"
+      />
+    </div>
+  );
+}
+
+// Renders the project's custom fields; validation runs through react-hook-form
+export function CustomFieldsEditor({ form, schema, disabled }: CustomFieldsEditorProps) {
+  if (schema.length === 0) return null;
+
+  return (
+    <Form {...form}>
+      <div className="grid grid-cols-2 gap-3">
+        {schema.map((definition) => (
+          <FormField
+            key={definition.key}
+            control={form.control}
+            name={definition.key}
+            rules={{ validate: (value) => validateFieldValue(definition, value) ?? true }}
+            render={({ field }) => (
+              <FormItem className="gap-1">
+                <FormLabel className="text-xs text-gray-600 font-normal">
+                  {definition.label}
+                  {definition.required && definition.kind !== 'boolean' && <span className="text-red-500">*</span>}
+                </FormLabel>
+                <FormControl>
+                  {definition.kind === 'select' ? (
+                    <Select value={field.value as string} onValueChange={field.onChange} disabled={disabled}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Select..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(definition.options ?? []).map((option) => (
+                          <SelectItem key={option} value={option}>
+                            {option}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : definition.kind === 'multiSelect' ? (
+                    <div className="flex flex-wrap gap-x-3 gap-y-1 py-1">
+                      {(definition.options ?? []).map((option) => {
+                        const selected = field.value as string[];
+                        return (
+                          <label key={option} className="flex items-center gap-1 text-sm text-gray-700">
+                            <Checkbox
+                              checked={selected.includes(option)}
+                              onCheckedChange={(checked) =>
+                                field.onChange(
+                                  checked ? [...selected, option] : selected.filter((item) => item !== option)
+                                )
+                              }
+                              disabled={disabled}
+                            />
+                            {option}
+                          </label>
+                        );
+                      })}
+                    </div>
+                  ) : definition.kind === 'boolean' ? (
+                    <Switch checked={field.value as boolean} onCheckedChange={field.onChange} disabled={disabled} />
+                  ) : definition.kind === 'tags' ? (
+                    <TagInput value={field.value as string[]} onChange={field.onChange} disabled={disabled} />
+                  ) : (
+                    <Input
+                      type={definition.kind === 'number' ? 'number' : 'text'}
+                      value={field.value as string}
+                      onChange={field.onChange}
+                      onBlur={field.onBlur}
+                      disabled={disabled}
+                    />
+                  )}
+                </FormControl>
+                <FormMessage className="text-xs" />
+              </FormItem>
+            )}
+          />
+        ))}
+      </div>
+    </Form>
+  );
+}
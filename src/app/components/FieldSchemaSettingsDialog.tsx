@@ -0,0 +1,208 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import type { Annotation } from './AnnotationPanel';
+import {
+  conformFieldValue,
+  CustomFieldDefinition,
+  CustomFieldKind,
+  FIELD_KIND_OPTIONS,
+  hasOptions,
+  validateFieldSchema,
+} from '../utils/customFields';
+
+interface FieldSchemaSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  schema: CustomFieldDefinition[];
+  // Checked against the edited schema to warn about values that will be dropped
+  annotations: Annotation[];
+  onSave: (schema: CustomFieldDefinition[]) => void;
+}
+
+interface FieldRow {
+  // Existing fields keep their key and kind, since annotations store values under them
+  isNew: boolean;
+  definition: CustomFieldDefinition;
+  // Options as typed, comma-separated
+  optionsText: string;
+}
+
+const parseOptions = (text: string) =>
+  text.split(',').map((option) => option.trim()).filter((option, index, all) => option && all.indexOf(option) === index);
+
+export function FieldSchemaSettingsDialog({ open, onOpenChange, schema, annotations, onSave }: FieldSchemaSettingsDialogProps) {
+  const [rows, setRows] = useState<FieldRow[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setRows(schema.map((definition) => ({
+        isNew: false,
+        definition,
+        optionsText: (definition.options ?? []).join(', '),
+      })));
+    }
+  }, [open, schema]);
+
+  const definitions = rows.map(({ definition, optionsText }) => {
+    const { options, ...rest } = definition;
+    return hasOptions(definition.kind) ? { ...rest, options: parseOptions(optionsText) } : rest;
+  });
+  const errors = validateFieldSchema(definitions);
+  const removedCount = schema.filter((field) => !definitions.some((d) => d.key === field.key)).length;
+  // Annotations holding options that are no longer offered
+  const mismatchCount = annotations.filter((ann) =>
+    Object.entries(ann.fields ?? {}).some(([key, value]) => {
+      const field = definitions.find((d) => d.key === key);
+      return field !== undefined && conformFieldValue(field, value) !== value;
+    })
+  ).length;
+
+  const updateRow = (index: number, changes: Partial<FieldRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const updateDefinition = (index: number, changes: Partial<CustomFieldDefinition>) => {
+    updateRow(index, { definition: { ...rows[index].definition, ...changes } });
+  };
+
+  const handleAdd = () => {
+    setRows([
+      ...rows,
+      { isNew: true, definition: { key: '', label: '', kind: 'text', required: false }, optionsText: '' },
+    ]);
+  };
+
+  const handleSave = () => {
+    onSave(definitions);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Custom Fields</DialogTitle>
+          <DialogDescription>
+            Extra metadata collected for every annotation, saved with the project and written to exports under "fields".
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-3">
+          {rows.length === 0 && <p className="text-sm text-gray-400">No custom fields yet.</p>}
+          {rows.map((row, index) => (
+            <div key={index} className="p-3 border border-gray-200 rounded-lg space-y-2">
+              <div className="grid grid-cols-[1fr_1fr_auto_auto_auto] items-center gap-2">
+                <input
+                  type="text"
+                  value={row.definition.key}
+                  onChange={(e) => updateDefinition(index, { key: e.target.value })}
+                  disabled={!row.isNew}
+                  placeholder="key, e.g. difficulty"
+                  title={row.isNew ? undefined : 'Keys of existing fields cannot change'}
+                  className="p-2 text-sm font-mono border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-500"
+                />
+                <input
+                  type="text"
+                  value={row.definition.label}
+                  onChange={(e) => updateDefinition(index, { label: e.target.value })}
+                  placeholder="Label"
+                  className="p-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <select
+                  value={row.definition.kind}
+                  onChange={(e) => updateDefinition(index, { kind: e.target.value as CustomFieldKind })}
+                  disabled={!row.isNew}
+                  title={row.isNew ? undefined : 'Types of existing fields cannot change'}
+                  className="p-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-500"
+                >
+                  {FIELD_KIND_OPTIONS.map(({ kind, label }) => (
+                    <option key={kind} value={kind}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-1 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={row.definition.required}
+                    onChange={(e) => updateDefinition(index, { required: e.target.checked })}
+                    disabled={row.definition.kind === 'boolean'}
+                  />
+                  Required
+                </label>
+                <button
+                  onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                  className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                  title="Remove field"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              {hasOptions(row.definition.kind) && (
+                <input
+                  type="text"
+                  value={row.optionsText}
+                  onChange={(e) => updateRow(index, { optionsText: e.target.value })}
+                  placeholder="Options, comma-separated (e.g. easy, medium, hard)"
+                  className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              )}
+            </div>
+          ))}
+          <button
+            onClick={handleAdd}
+            className="flex items-center gap-1 py-1 px-2 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+          >
+            <Plus className="w-3 h-3" />
+            Add field
+          </button>
+        </div>
+
+        {(errors.length > 0 || removedCount > 0 || mismatchCount > 0) && (
+          <div className="space-y-1">
+            {errors.map((message) => (
+              <p key={message} className="flex items-center gap-2 text-xs text-red-600">
+                <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                {message}
+              </p>
+            ))}
+            {removedCount > 0 && (
+              <p className="text-xs text-amber-700">
+                Values of {removedCount} removed field{removedCount === 1 ? '' : 's'} will be deleted from all annotations.
+              </p>
+            )}
+            {mismatchCount > 0 && (
+              <p className="text-xs text-amber-700">
+                {mismatchCount} annotation{mismatchCount === 1 ? ' uses' : 's use'} options that were removed; those values will be deleted.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <button
+            onClick={() => onOpenChange(false)}
+            className="py-2 px-4 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={errors.length > 0}
+            className="py-2 px-4 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,61 @@
+import { Plus, Trash2 } from 'lucide-react';
+import type { DialogueTurn } from './AnnotationPanel';
+
+interface FollowUpTurnsEditorProps {
+  turns: DialogueTurn[];
+  onChange: (turns: DialogueTurn[]) => void;
+  disabled?: boolean;
+  compact?: boolean;
+}
+
+export function FollowUpTurnsEditor({ turns, onChange, disabled, compact }: FollowUpTurnsEditorProps) {
+  const updateTurn = (index: number, turn: Partial<DialogueTurn>) => {
+    onChange(turns.map((existing, i) => (i === index ? { ...existing, ...turn } : existing)));
+  };
+
+  const textareaClass = `w-full ${compact ? 'h-14 p-2 text-sm' : 'h-16 p-2 text-sm'} border border-gray-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-500`;
+
+  return (
+    <div className="space-y-2">
+      {turns.map((turn, index) => (
+        <div key={index} className="p-2 bg-white border border-gray-200 rounded-lg space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-500">Follow-up {index + 1}</span>
+            <button
+              onClick={() => onChange(turns.filter((_, i) => i !== index))}
+              disabled={disabled}
+              className="p-1 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Remove follow-up"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <textarea
+              value={turn.question}
+              onChange={(e) => updateTurn(index, { question: e.target.value })}
+              disabled={disabled}
+              placeholder="Follow-up question..."
+              className={textareaClass}
+            />
+            <textarea
+              value={turn.answer}
+              onChange={(e) => updateTurn(index, { answer: e.target.value })}
+              disabled={disabled}
+              placeholder="Reference answer..."
+              className={textareaClass}
+            />
+          </div>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...turns, { question: '', answer: '' }])}
+        disabled={disabled}
+        className="flex items-center gap-1 py-1 px-2 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Plus className="w-3 h-3" />
+        Add follow-up turn
+      </button>
+    </div>
+  );
+}
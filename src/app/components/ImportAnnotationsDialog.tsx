@@ -0,0 +1,108 @@
+import { AlertCircle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import type { ImportMode, ImportResult } from '../utils/annotationImport';
+
+interface ImportAnnotationsDialogProps {
+  fileName: string;
+  result: ImportResult | null;
+  error: string;
+  existingCount: number;
+  onConfirm: (mode: ImportMode) => void;
+  onClose: () => void;
+}
+
+export function ImportAnnotationsDialog({
+  fileName,
+  result,
+  error,
+  existingCount,
+  onConfirm,
+  onClose,
+}: ImportAnnotationsDialogProps) {
+  const validCount = result?.annotations.length ?? 0;
+
+  return (
+    <Dialog open={Boolean(result || error)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import Annotations</DialogTitle>
+          <DialogDescription>{fileName}</DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="flex items-center gap-2 text-sm text-red-600">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            {error}
+          </p>
+        ) : (
+          result && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-700">
+                {validCount} valid annotation{validCount === 1 ? '' : 's'} found
+                {result.errors.length > 0 && `, ${result.errors.length} problem${result.errors.length === 1 ? '' : 's'}`}.
+              </p>
+              {result.errors.length > 0 && (
+                <div className="max-h-48 overflow-y-auto rounded-lg border border-red-200 bg-red-50 p-3 space-y-1">
+                  {result.errors.map((rowError, index) => (
+                    <p key={index} className="text-xs text-red-700">
+                      <span className="font-mono">Row {rowError.row}:</span> {rowError.message}
+                    </p>
+                  ))}
+                </div>
+              )}
+              {result.annotationTypes && (
+                <p className="text-xs text-gray-600">
+                  Adds annotation type{result.annotationTypes.length === 1 ? '' : 's'}{' '}
+                  {result.annotationTypes.map((type) => type.name).join(', ')} to the project.
+                </p>
+              )}
+              {result.fieldSchema && (
+                <p className="text-xs text-gray-600">
+                  Adds custom field{result.fieldSchema.length === 1 ? '' : 's'}{' '}
+                  {result.fieldSchema.map((field) => field.label).join(', ')} to the project.
+                </p>
+              )}
+              {result.errors.length > 0 && validCount > 0 && (
+                <p className="text-xs text-gray-500">Rows with problems will be skipped.</p>
+              )}
+            </div>
+          )
+        )}
+
+        <DialogFooter>
+          <button
+            onClick={onClose}
+            className="py-2 px-4 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+          >
+            Cancel
+          </button>
+          {!error && (
+            <>
+              <button
+                onClick={() => onConfirm('merge')}
+                disabled={validCount === 0}
+                className="py-2 px-4 text-sm bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Merge with current ({existingCount})
+              </button>
+              <button
+                onClick={() => onConfirm('replace')}
+                disabled={validCount === 0}
+                className="py-2 px-4 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Replace all
+              </button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,38 @@
+import { Repeat, X } from 'lucide-react';
+import type { LoopControlProps } from '../player/types';
+
+interface LoopControlsProps extends LoopControlProps {
+  formatTime: (time: number) => string;
+}
+
+export function LoopControls({ loop, onSetLoopA, onSetLoopB, onClearLoop, formatTime }: LoopControlsProps) {
+  const a = loop?.a ?? null;
+  const b = loop?.b ?? null;
+  const isActive = a !== null && b !== null && a !== b;
+
+  const pointClass = (isSet: boolean) =>
+    `px-2 py-1 rounded text-xs font-mono transition-colors ${
+      isSet ? 'bg-green-600 text-white' : 'bg-green-50 text-green-700 hover:bg-green-100'
+    }`;
+
+  return (
+    <div className="flex items-center gap-1">
+      <Repeat className={`w-4 h-4 ${isActive ? 'text-green-600' : 'text-gray-400'}`} />
+      <button onClick={onSetLoopA} className={pointClass(a !== null)} title="在当前时间设置循环起点 A">
+        A{a !== null && ` ${formatTime(a)}`}
+      </button>
+      <button onClick={onSetLoopB} className={pointClass(b !== null)} title="在当前时间设置循环终点 B">
+        B{b !== null && ` ${formatTime(b)}`}
+      </button>
+      {(a !== null || b !== null) && (
+        <button
+          onClick={onClearLoop}
+          className="p-1 text-gray-400 hover:text-gray-700 rounded transition-colors"
+          title="取消循环"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+}
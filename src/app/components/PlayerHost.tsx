@@ -0,0 +1,15 @@
+import { forwardRef } from 'react';
+import type { PlayerAdapter } from '../player/types';
+import { getPlayerSource, PlayerHostProps, VideoSource } from '../player/sources';
+
+interface PlayerHostComponentProps extends PlayerHostProps {
+  source: VideoSource;
+}
+
+// Renders the player registered for the source and forwards its adapter
+export const PlayerHost = forwardRef<PlayerAdapter, PlayerHostComponentProps>(function PlayerHost(
+  { source, ...props },
+  ref
+) {
+  return <>{getPlayerSource(source.kind).render(source, props, ref)}</>;
+});
@@ -0,0 +1,238 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Download, FileUp, Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import type { AnnotationTypeConfig } from '../utils/annotationTypes';
+import {
+  createTemplateId,
+  parsePromptLibrary,
+  PLACEHOLDERS,
+  PromptLibrary,
+  PromptTemplate,
+  serializePromptLibrary,
+} from '../utils/promptTemplates';
+import { downloadFile } from '../utils/download';
+
+interface PromptTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  library: PromptLibrary;
+  annotationTypes: AnnotationTypeConfig[];
+  onSave: (library: PromptLibrary) => void;
+}
+
+export function PromptTemplatesDialog({
+  open,
+  onOpenChange,
+  library,
+  annotationTypes,
+  onSave,
+}: PromptTemplatesDialogProps) {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [typeDefaults, setTypeDefaults] = useState<Record<string, string>>({});
+  const [importError, setImportError] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      setTemplates(library.templates);
+      setTypeDefaults(library.typeDefaults);
+      setImportError('');
+    }
+  }, [open, library]);
+
+  const hasUnnamed = templates.some((template) => !template.name.trim());
+
+  const updateTemplate = (index: number, changes: Partial<PromptTemplate>) => {
+    setTemplates(templates.map((template, i) => (i === index ? { ...template, ...changes } : template)));
+  };
+
+  const handleRemove = (index: number) => {
+    const { id } = templates[index];
+    setTemplates(templates.filter((_, i) => i !== index));
+    setTypeDefaults(Object.fromEntries(Object.entries(typeDefaults).filter(([, templateId]) => templateId !== id)));
+  };
+
+  // Imported templates replace ones with the same id and are appended otherwise
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePromptLibrary(JSON.parse(await file.text()));
+      const importedIds = new Set(imported.templates.map((template) => template.id));
+      setTemplates([...templates.filter((template) => !importedIds.has(template.id)), ...imported.templates]);
+      setTypeDefaults({ ...typeDefaults, ...imported.typeDefaults });
+      setImportError('');
+    } catch (error) {
+      setImportError(`Could not import ${file.name}: ${error instanceof Error ? error.message : 'invalid file'}`);
+    }
+  };
+
+  const currentLibrary = (): PromptLibrary => ({
+    templates: templates.map((template) => ({ ...template, name: template.name.trim() })),
+    typeDefaults,
+  });
+
+  const handleSave = () => {
+    onSave(currentLibrary());
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Question Templates</DialogTitle>
+          <DialogDescription>
+            Placeholders are filled in when a template is inserted:{' '}
+            {PLACEHOLDERS.map(({ token, description }, index) => (
+              <span key={token}>
+                {index > 0 && ', '}
+                <code className="text-xs">{`{${token}}`}</code> ({description.toLowerCase()})
+              </span>
+            ))}
+            .
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[55vh] overflow-y-auto space-y-3">
+          {templates.length === 0 && <p className="text-sm text-gray-400">No templates yet.</p>}
+          {templates.map((template, index) => (
+            <div key={template.id} className="p-3 border border-gray-200 rounded-lg space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={template.name}
+                  onChange={(e) => updateTemplate(index, { name: e.target.value })}
+                  placeholder="Template name"
+                  className="flex-1 p-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  onClick={() => handleRemove(index)}
+                  className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                  title="Remove template"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <textarea
+                value={template.question}
+                onChange={(e) => updateTemplate(index, { question: e.target.value })}
+                placeholder="Question (optional)"
+                className="w-full h-14 p-2 text-sm border border-gray-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <textarea
+                value={template.requirements}
+                onChange={(e) => updateTemplate(index, { requirements: e.target.value })}
+                placeholder="Answer requirements (optional)"
+                className="w-full h-14 p-2 text-sm border border-gray-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          ))}
+          <button
+            onClick={() => setTemplates([...templates, { id: createTemplateId(), name: '', question: '', requirements: '' }])}
+            className="flex items-center gap-1 py-1 px-2 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+          >
+            <Plus className="w-3 h-3" />
+            Add template
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs text-gray-600">Filled in when an annotation of the type starts:</p>
+          <div className="grid grid-cols-2 gap-2">
+            {annotationTypes.map((type) => (
+              <label key={type.name} className="flex items-center gap-2 text-xs text-gray-600">
+                <span className="w-16 truncate font-medium" style={{ color: type.color }}>
+                  {type.name}
+                </span>
+                <select
+                  value={typeDefaults[type.name] ?? ''}
+                  onChange={(e) => {
+                    const { [type.name]: _previous, ...rest } = typeDefaults;
+                    setTypeDefaults(e.target.value ? { ...rest, [type.name]: e.target.value } : rest);
+                  }}
+                  className="flex-1 p-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">No default</option>
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name || 'Untitled'}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {(hasUnnamed || importError) && (
+          <div className="space-y-1">
+            {hasUnnamed && (
+              <p className="flex items-center gap-2 text-xs text-red-600">
+                <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                Every template needs a name.
+              </p>
+            )}
+            {importError && (
+              <p className="flex items-center gap-2 text-xs text-red-600">
+                <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                {importError}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="sm:justify-between">
+          <div className="flex gap-2">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex items-center gap-1 py-2 px-3 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              <FileUp className="w-4 h-4" />
+              Import
+            </button>
+            <button
+              onClick={() =>
+                downloadFile(serializePromptLibrary(currentLibrary()), 'question-templates.json', 'application/json')
+              }
+              className="flex items-center gap-1 py-2 px-3 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              Export
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleImportFile}
+              className="hidden"
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onOpenChange(false)}
+              className="py-2 px-4 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={hasUnnamed}
+              className="py-2 px-4 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,260 @@
+import { useRef, useState } from 'react';
+import { Square, Pentagon, Crosshair, Check, X, Trash2 } from 'lucide-react';
+import type { Region, RegionPoint, RegionShape } from './AnnotationPanel';
+
+// Cycled by region index so neighbouring regions stay distinguishable
+export const REGION_COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#eab308', '#a855f7'];
+
+// Rectangles smaller than this (as a fraction of the frame) are treated as stray clicks
+const MIN_RECT_SIZE = 0.005;
+// Clicking this close to the first vertex closes a polygon
+const CLOSE_DISTANCE = 0.02;
+// A polygon click this close to the previous vertex (as from a double-click) adds nothing
+const DUPLICATE_DISTANCE = 0.005;
+
+const TOOLS: { shape: RegionShape; label: string; icon: typeof Square }[] = [
+  { shape: 'rect', label: '矩形', icon: Square },
+  { shape: 'polygon', label: '多边形', icon: Pentagon },
+  { shape: 'point', label: '点', icon: Crosshair },
+];
+
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+const distance = (a: RegionPoint, b: RegionPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Drops vertices repeating the previous one, including a last vertex on top of the first
+const dropRepeatedVertices = (points: RegionPoint[]) =>
+  points.filter(
+    (point, index) =>
+      index === 0
+        ? true
+        : distance(point, points[index - 1]) >= DUPLICATE_DISTANCE &&
+          (index < points.length - 1 || distance(point, points[0]) >= DUPLICATE_DISTANCE)
+  );
+
+interface RegionOverlayProps {
+  // Intrinsic video size; the overlay letterboxes like object-contain
+  videoWidth: number;
+  videoHeight: number;
+  regions: Region[];
+  // Drawing is enabled only when a change handler is given
+  onChange?: (regions: Region[]) => void;
+}
+
+// Draws regions over the video in normalized (0–1) frame coordinates, and
+// lets the annotator add rectangles, polygons and points.
+export function RegionOverlay({ videoWidth, videoHeight, regions, onChange }: RegionOverlayProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [tool, setTool] = useState<RegionShape>('rect');
+  const [draft, setDraft] = useState<RegionPoint[] | null>(null);
+  const [hover, setHover] = useState<RegionPoint | null>(null);
+  const editable = Boolean(onChange);
+
+  if (!videoWidth || !videoHeight) return null;
+
+  const toNormalized = (e: React.PointerEvent | React.MouseEvent): RegionPoint | null => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix) return null;
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+    return { x: round4(clamp01(point.x / videoWidth)), y: round4(clamp01(point.y / videoHeight)) };
+  };
+
+  const addRegion = (shape: RegionShape, points: RegionPoint[]) => {
+    onChange?.([...regions, { shape, label: '', points }]);
+  };
+
+  const closePolygon = () => {
+    const vertices = draft ? dropRepeatedVertices(draft) : [];
+    if (vertices.length >= 3) {
+      addRegion('polygon', vertices);
+    }
+    setDraft(null);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const point = toNormalized(e);
+    if (!point) return;
+    if (tool === 'point') {
+      addRegion('point', [point]);
+    } else if (tool === 'rect') {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDraft([point, point]);
+    } else if (draft && draft.length >= 3 && distance(point, draft[0]) < CLOSE_DISTANCE) {
+      closePolygon();
+    } else if (!draft || distance(point, draft[draft.length - 1]) >= DUPLICATE_DISTANCE) {
+      setDraft([...(draft ?? []), point]);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const point = toNormalized(e);
+    if (!point) return;
+    if (tool === 'rect' && draft) {
+      setDraft([draft[0], point]);
+    }
+    setHover(point);
+  };
+
+  const handlePointerUp = () => {
+    if (tool !== 'rect' || !draft) return;
+    const [a, b] = draft;
+    if (Math.abs(b.x - a.x) > MIN_RECT_SIZE && Math.abs(b.y - a.y) > MIN_RECT_SIZE) {
+      addRegion('rect', [
+        { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y) },
+        { x: Math.max(a.x, b.x), y: Math.max(a.y, b.y) },
+      ]);
+    }
+    setDraft(null);
+  };
+
+  const toPixels = (points: RegionPoint[]) => points.map((p) => `${p.x * videoWidth},${p.y * videoHeight}`).join(' ');
+  const fontSize = videoHeight * 0.035;
+
+  const renderShape = (shape: RegionShape, points: RegionPoint[], color: string, dashed = false) => {
+    const stroke = {
+      stroke: color,
+      strokeWidth: 2,
+      vectorEffect: 'non-scaling-stroke' as const,
+      strokeDasharray: dashed ? '6 4' : undefined,
+    };
+    if (shape === 'point') {
+      return <circle cx={points[0].x * videoWidth} cy={points[0].y * videoHeight} r={videoHeight * 0.01} fill={color} {...stroke} />;
+    }
+    if (shape === 'rect') {
+      const [a, b] = points;
+      return (
+        <rect
+          x={Math.min(a.x, b.x) * videoWidth}
+          y={Math.min(a.y, b.y) * videoHeight}
+          width={Math.abs(b.x - a.x) * videoWidth}
+          height={Math.abs(b.y - a.y) * videoHeight}
+          fill={`${color}22`}
+          {...stroke}
+        />
+      );
+    }
+    return dashed
+      ? <polyline points={toPixels(points)} fill="none" {...stroke} />
+      : <polygon points={toPixels(points)} fill={`${color}22`} {...stroke} />;
+  };
+
+  return (
+    <div className={`absolute inset-0 ${editable ? '' : 'pointer-events-none'}`}>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${videoWidth} ${videoHeight}`}
+        preserveAspectRatio="xMidYMid meet"
+        className={`w-full h-full ${editable ? 'cursor-crosshair' : ''}`}
+        onPointerDown={editable ? handlePointerDown : undefined}
+        onPointerMove={editable ? handlePointerMove : undefined}
+        onPointerUp={editable ? handlePointerUp : undefined}
+        onPointerLeave={() => setHover(null)}
+        onDoubleClick={editable && tool === 'polygon' ? closePolygon : undefined}
+      >
+        {regions.map((region, index) => {
+          const color = REGION_COLORS[index % REGION_COLORS.length];
+          return (
+            <g key={index}>
+              {renderShape(region.shape, region.points, color)}
+              {region.label && (
+                <text
+                  x={region.points[0].x * videoWidth}
+                  y={region.points[0].y * videoHeight - fontSize * 0.3}
+                  fontSize={fontSize}
+                  fill="white"
+                  stroke="black"
+                  strokeWidth={fontSize * 0.12}
+                  paintOrder="stroke"
+                >
+                  {region.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+        {draft && renderShape(tool, tool === 'polygon' && hover ? [...draft, hover] : draft, '#ffffff', true)}
+      </svg>
+
+      {editable && (
+        <div className="absolute top-2 left-2 flex gap-1 bg-black/60 rounded-lg p-1">
+          {TOOLS.map(({ shape, label, icon: Icon }) => (
+            <button
+              key={shape}
+              onClick={() => {
+                setTool(shape);
+                setDraft(null);
+              }}
+              className={`p-1.5 rounded transition-colors ${
+                tool === shape ? 'bg-white text-gray-900' : 'text-white hover:bg-white/20'
+              }`}
+              title={label}
+            >
+              <Icon className="w-4 h-4" />
+            </button>
+          ))}
+          {tool === 'polygon' && draft && (
+            <>
+              <button
+                onClick={closePolygon}
+                disabled={draft.length < 3}
+                className="p-1.5 rounded text-white hover:bg-white/20 transition-colors disabled:opacity-40"
+                title="闭合多边形（也可双击或点击起点）"
+              >
+                <Check className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setDraft(null)}
+                className="p-1.5 rounded text-white hover:bg-white/20 transition-colors"
+                title="取消"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface RegionLabelListProps {
+  regions: Region[];
+  onChange: (regions: Region[]) => void;
+}
+
+const SHAPE_LABELS: Record<RegionShape, string> = { rect: '矩形', polygon: '多边形', point: '点' };
+
+export function RegionLabelList({ regions, onChange }: RegionLabelListProps) {
+  if (regions.length === 0) {
+    return <p className="text-xs text-gray-500">暂停时可在画面上绘制矩形、多边形或点，以标出问题涉及的区域。</p>;
+  }
+  return (
+    <div className="space-y-1">
+      {regions.map((region, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <span
+            className="w-3 h-3 rounded-sm flex-shrink-0"
+            style={{ backgroundColor: REGION_COLORS[index % REGION_COLORS.length] }}
+          />
+          <span className="w-12 text-xs text-gray-500">{SHAPE_LABELS[region.shape]}</span>
+          <input
+            type="text"
+            value={region.label}
+            onChange={(e) =>
+              onChange(regions.map((existing, i) => (i === index ? { ...existing, label: e.target.value } : existing)))
+            }
+            placeholder="标签，例如 person"
+            className="flex-1 px-2 py-0.5 text-xs border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={() => onChange(regions.filter((_, i) => i !== index))}
+            className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+            title="删除区域"
+          >
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
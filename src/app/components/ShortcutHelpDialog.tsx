@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  DEFAULT_SHORTCUTS,
+  eventToCombo,
+  SHORTCUT_ACTIONS,
+  ShortcutAction,
+  ShortcutBindings,
+} from '../utils/shortcuts';
+
+interface ShortcutHelpDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bindings: ShortcutBindings;
+  onChange: (bindings: ShortcutBindings) => void;
+}
+
+export function ShortcutHelpDialog({ open, onOpenChange, bindings, onChange }: ShortcutHelpDialogProps) {
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!recording) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      setRecording(null);
+      return;
+    }
+    const combo = eventToCombo(e.nativeEvent);
+    if (!combo) return;
+    // A combo can only trigger one action; the previous owner becomes unbound
+    const next = { ...bindings };
+    (Object.keys(next) as ShortcutAction[]).forEach((action) => {
+      if (next[action] === combo) next[action] = '';
+    });
+    next[recording] = combo;
+    onChange(next);
+    setRecording(null);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setRecording(null);
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent onKeyDown={handleKeyDown} onEscapeKeyDown={(e) => recording && e.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle>键盘快捷键</DialogTitle>
+          <DialogDescription>
+            点击按键可重新绑定。在输入框中输入时，只有 Ctrl / Cmd 组合键生效，撤销和重做由输入框自己处理。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+          {SHORTCUT_ACTIONS.map(({ action, label }) => (
+            <div key={action} className="flex items-center justify-between py-2">
+              <span className="text-sm text-gray-700">{label}</span>
+              <button
+                onClick={() => setRecording(action)}
+                className={`min-w-24 px-2 py-1 text-xs font-mono rounded border transition-colors ${
+                  recording === action
+                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                    : 'border-gray-300 bg-gray-50 text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                {recording === action ? '按下新按键…' : bindings[action] || '未设置'}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <button
+            onClick={() => onChange(DEFAULT_SHORTCUTS)}
+            className="py-2 px-4 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+          >
+            恢复默认
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,60 @@
+import { Crosshair } from 'lucide-react';
+import { formatTimecode, parseTime, validateTimestamp } from '../utils/time';
+
+interface TimestampEditorProps {
+  // Kept as typed; parsed by the caller on save
+  text: string;
+  onChange: (text: string) => void;
+  duration: number;
+  currentTime: number;
+}
+
+const NUDGES = [-1, -0.1, 0.1, 1];
+
+export function TimestampEditor({ text, onChange, duration, currentTime }: TimestampEditorProps) {
+  const error = validateTimestamp(text, duration);
+  const parsed = parseTime(text);
+
+  const clamp = (time: number) => Math.min(Math.max(time, 0), duration > 0 ? duration : Infinity);
+
+  // Nudges start from the typed time, so they are disabled until it parses; a
+  // time outside the video is pulled back into range by the first nudge
+  const nudge = (delta: number) => {
+    if (!Number.isNaN(parsed)) onChange(formatTimecode(clamp(parsed + delta)));
+  };
+
+  const buttonClass =
+    'py-1 px-1.5 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div>
+      <label className="block text-xs text-gray-600 mb-1">Timestamp</label>
+      <div className="flex items-center gap-1">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="h:mm:ss.mmm"
+          className={`w-32 p-2 text-sm font-mono border rounded-lg focus:outline-none focus:ring-2 ${
+            error ? 'border-red-400 focus:ring-red-400' : 'border-gray-300 focus:ring-blue-500'
+          }`}
+        />
+        {NUDGES.map((delta) => (
+          <button key={delta} onClick={() => nudge(delta)} disabled={Number.isNaN(parsed)} className={buttonClass}>
+            {delta > 0 ? '+' : '−'}
+            {Math.abs(delta)}s
+          </button>
+        ))}
+        <button
+          onClick={() => onChange(formatTimecode(clamp(currentTime)))}
+          className={`${buttonClass} flex items-center gap-1`}
+          title="Set to the current player time"
+        >
+          <Crosshair className="w-3 h-3" />
+          Now
+        </button>
+      </div>
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
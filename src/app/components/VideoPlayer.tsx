@@ -1,24 +1,128 @@
-import { useState, useRef, useEffect } from 'react';
-import { Play, Pause, Volume2, VolumeX, AlertCircle, Subtitles } from 'lucide-react';
+import { useState, useRef, useEffect, forwardRef, useImperativeHandle } from 'react';
+import { Play, Pause, Volume2, VolumeX, AlertCircle, Subtitles, MessageSquareText, StepBack, StepForward } from 'lucide-react';
+import type { PlayerAdapter, PlayerProps } from '../player/types';
+import { createPlayerEvents } from '../player/events';
+import { LoopControls } from './LoopControls';
+import { RegionLabelList, RegionOverlay } from './RegionOverlay';
+import type { Region } from './AnnotationPanel';
+import { captureVideoFrame, FrameCaptureError } from '../utils/frameCapture';
+import { createFrameRateEstimator, DEFAULT_FRAME_RATE, frameToTime, timeToFrame } from '../utils/frames';
 
-interface VideoPlayerProps {
+interface VideoPlayerProps extends PlayerProps {
   videoUrl: string;
-  onTimeUpdate?: (time: number) => void;
-  isPaused: boolean;
-  onPauseChange: (paused: boolean) => void;
   subtitleUrl?: string;
+  // Generated WebVTT of the annotations, shown as a second track
+  annotationTrackUrl?: string;
+  regions?: Region[];
+  onRegionsChange?: (regions: Region[]) => void;
 }
 
-export function VideoPlayer({ videoUrl, onTimeUpdate, isPaused, onPauseChange, subtitleUrl }: VideoPlayerProps) {
+export const VideoPlayer = forwardRef<PlayerAdapter, VideoPlayerProps>(function VideoPlayer(
+  {
+    videoUrl,
+    onTimeUpdate,
+    onDurationChange,
+    onFrameRateChange,
+    isPaused,
+    onPauseChange,
+    subtitleUrl,
+    annotationTrackUrl,
+    isAnnotating,
+    markIn = null,
+    markOut = null,
+    onMarkIn,
+    onMarkOut,
+    loop,
+    onSetLoopA,
+    onSetLoopB,
+    onClearLoop,
+    regions = [],
+    onRegionsChange,
+  },
+  ref
+) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  const [videoSize, setVideoSize] = useState({ width: 0, height: 0 });
   const [volume, setVolume] = useState(1);
   const [isMuted, setIsMuted] = useState(false);
   const [playbackRate, setPlaybackRate] = useState(1);
   const [hasError, setHasError] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
   const [showSubtitles, setShowSubtitles] = useState(true);
+  const [showAnnotationTrack, setShowAnnotationTrack] = useState(false);
+  const subtitleTrackRef = useRef<HTMLTrackElement>(null);
+  const annotationTrackRef = useRef<HTMLTrackElement>(null);
+  const eventsRef = useRef(createPlayerEvents());
+  const [detectedFrameRate, setDetectedFrameRate] = useState<number | null>(null);
+  const [userFrameRate, setUserFrameRate] = useState<number | null>(null);
+  const frameRate = userFrameRate ?? detectedFrameRate;
+  // timeupdate only fires a few times per second; when requestVideoFrameCallback
+  // is available the exact media time of each presented frame is used instead
+  const usesFrameCallback = typeof HTMLVideoElement !== 'undefined'
+    && 'requestVideoFrameCallback' in HTMLVideoElement.prototype;
+
+  const seekTo = (time: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = time;
+      setCurrentTime(time);
+      onTimeUpdate?.(time);
+    }
+  };
+
+  const stepFrame = (frames: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    onPauseChange(true);
+    const rate = frameRate ?? DEFAULT_FRAME_RATE;
+    const target = timeToFrame(video.currentTime, rate) + frames;
+    seekTo(Math.min(frameToTime(target, rate), video.duration || Infinity));
+  };
+
+  useImperativeHandle(ref, () => ({
+    play: () => onPauseChange(false),
+    pause: () => onPauseChange(true),
+    seek: seekTo,
+    getDuration: () => videoRef.current?.duration || 0,
+    getCurrentTime: () => videoRef.current?.currentTime ?? 0,
+    setPlaybackRate: (rate: number) => handlePlaybackRateChange(rate),
+    getPlaybackRate: () => videoRef.current?.playbackRate ?? 1,
+    stepFrame,
+    getFrameRate: () => frameRate ?? DEFAULT_FRAME_RATE,
+    toggleSubtitles,
+    getSubtitleText: () => {
+      const cues = subtitleTrackRef.current?.track.activeCues;
+      return cues ? Array.from(cues, (cue) => (cue as VTTCue).text).join('\n') : '';
+    },
+    captureFrame: () => {
+      const video = videoRef.current;
+      return video ? captureVideoFrame(video) : Promise.reject(new FrameCaptureError('视频尚未加载'));
+    },
+    on: eventsRef.current.on,
+  }), [onTimeUpdate, onPauseChange, frameRate, showSubtitles]);
+
+  useEffect(() => {
+    onFrameRateChange?.(frameRate);
+  }, [frameRate, onFrameRateChange]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !usesFrameCallback) return;
+    const estimator = createFrameRateEstimator();
+    let handle = 0;
+    const onFrame: VideoFrameRequestCallback = (_now, metadata) => {
+      setCurrentTime(metadata.mediaTime);
+      onTimeUpdate?.(metadata.mediaTime);
+      const estimate = estimator.add(metadata.presentedFrames, metadata.mediaTime);
+      if (estimate !== null) {
+        setDetectedFrameRate(estimate);
+      }
+      handle = video.requestVideoFrameCallback(onFrame);
+    };
+    handle = video.requestVideoFrameCallback(onFrame);
+    return () => video.cancelVideoFrameCallback(handle);
+  }, [videoUrl, onTimeUpdate]);
 
   useEffect(() => {
     const video = videoRef.current;
@@ -26,10 +130,20 @@ export function VideoPlayer({ videoUrl, onTimeUpdate, isPaused, onPauseChange, s
       // Reset error state when URL changes
       setHasError(false);
       setErrorMessage('');
+      // A rate typed in for the previous video does not apply to this one
+      setDetectedFrameRate(null);
+      setUserFrameRate(null);
       video.load();
     }
   }, [videoUrl]);
 
+  useEffect(() => {
+    const track = annotationTrackRef.current?.track;
+    if (track) {
+      track.mode = showAnnotationTrack ? 'showing' : 'hidden';
+    }
+  }, [showAnnotationTrack, annotationTrackUrl]);
+
   useEffect(() => {
     const video = videoRef.current;
     if (video && !hasError) {
@@ -73,10 +187,16 @@ export function VideoPlayer({ videoUrl, onTimeUpdate, isPaused, onPauseChange, s
     setHasError(true);
     setErrorMessage(message);
     onPauseChange(true);
+    eventsRef.current.emit('error', { message });
+  };
+
+  const handleEnded = () => {
+    onPauseChange(true);
+    eventsRef.current.emit('ended', undefined);
   };
 
   const handleTimeUpdate = () => {
-    if (videoRef.current) {
+    if (videoRef.current && !usesFrameCallback) {
       const time = videoRef.current.currentTime;
       setCurrentTime(time);
       onTimeUpdate?.(time);
@@ -86,6 +206,9 @@ export function VideoPlayer({ videoUrl, onTimeUpdate, isPaused, onPauseChange, s
   const handleLoadedMetadata = () => {
     if (videoRef.current) {
       setDuration(videoRef.current.duration);
+      setVideoSize({ width: videoRef.current.videoWidth, height: videoRef.current.videoHeight });
+      onDurationChange?.(videoRef.current.duration);
+      eventsRef.current.emit('ready', undefined);
     }
   };
 
@@ -100,6 +223,7 @@ export function VideoPlayer({ videoUrl, onTimeUpdate, isPaused, onPauseChange, s
     if (videoRef.current) {
       videoRef.current.currentTime = time;
       setCurrentTime(time);
+      eventsRef.current.emit('seek', { time });
     }
   };
 
@@ -131,9 +255,8 @@ export function VideoPlayer({ videoUrl, onTimeUpdate, isPaused, onPauseChange, s
   };
 
   const toggleSubtitles = () => {
-    const video = videoRef.current;
-    if (video && video.textTracks && video.textTracks.length > 0) {
-      const track = video.textTracks[0];
+    const track = subtitleTrackRef.current?.track;
+    if (track) {
       if (showSubtitles) {
         track.mode = 'hidden';
       } else {
@@ -159,12 +282,14 @@ export function VideoPlayer({ videoUrl, onTimeUpdate, isPaused, onPauseChange, s
           onTimeUpdate={handleTimeUpdate}
           onLoadedMetadata={handleLoadedMetadata}
           onError={handleError}
+          onEnded={handleEnded}
           crossOrigin="anonymous"
           playsInline
           preload="auto"
         >
           {subtitleUrl && (
             <track
+              ref={subtitleTrackRef}
               kind="subtitles"
               src={subtitleUrl}
               srcLang="zh"
@@ -172,7 +297,22 @@ export function VideoPlayer({ videoUrl, onTimeUpdate, isPaused, onPauseChange, s
               default={showSubtitles}
             />
           )}
+          {annotationTrackUrl && (
+            <track
+              ref={annotationTrackRef}
+              kind="captions"
+              src={annotationTrackUrl}
+              label="标注"
+            />
+          )}
         </video>
+
+        <RegionOverlay
+          videoWidth={videoSize.width}
+          videoHeight={videoSize.height}
+          regions={regions}
+          onChange={onRegionsChange}
+        />
         
         {hasError && (
           <div className="absolute inset-0 flex items-center justify-center bg-black/80">
@@ -191,21 +331,80 @@ export function VideoPlayer({ videoUrl, onTimeUpdate, isPaused, onPauseChange, s
       <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
         {/* Progress Bar */}
         <div className="space-y-1">
-          <input
-            type="range"
-            min="0"
-            max={duration || 0}
-            value={currentTime}
-            onChange={handleSeek}
-            step="0.1"
-            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
-          />
-          <div className="flex justify-between text-sm text-gray-600">
-            <span>{formatTime(currentTime)}</span>
+          <div className="relative">
+            <input
+              type="range"
+              min="0"
+              max={duration || 0}
+              value={currentTime}
+              onChange={handleSeek}
+              step="0.1"
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+            />
+            {/* Marked segment */}
+            {isAnnotating && duration > 0 && markIn !== null && (
+              <div
+                className="absolute top-0 h-2 bg-amber-400/60 rounded pointer-events-none"
+                style={{
+                  left: `${(Math.min(markIn, markOut ?? markIn) / duration) * 100}%`,
+                  width: `${Math.max((Math.abs((markOut ?? markIn) - markIn) / duration) * 100, 0.5)}%`,
+                }}
+              />
+            )}
+            {/* A-B loop */}
+            {duration > 0 && loop?.a != null && (
+              <div
+                className="absolute -top-1 h-4 border-x-2 border-green-600 bg-green-500/30 rounded-sm pointer-events-none"
+                style={{
+                  left: `${(Math.min(loop.a, loop.b ?? loop.a) / duration) * 100}%`,
+                  width: `${(Math.abs((loop.b ?? loop.a) - loop.a) / duration) * 100}%`,
+                }}
+              />
+            )}
+          </div>
+          <div className="flex items-center justify-between text-sm text-gray-600">
+            <span>
+              {formatTime(currentTime)}
+              <span className="ml-2 font-mono text-xs text-gray-400">
+                #{timeToFrame(currentTime, frameRate ?? DEFAULT_FRAME_RATE)}
+              </span>
+            </span>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => stepFrame(-1)}
+                className="p-1 hover:bg-gray-100 rounded transition-colors"
+                title="上一帧"
+              >
+                <StepBack className="w-4 h-4 text-gray-700" />
+              </button>
+              <button
+                onClick={() => stepFrame(1)}
+                className="p-1 hover:bg-gray-100 rounded transition-colors"
+                title="下一帧"
+              >
+                <StepForward className="w-4 h-4 text-gray-700" />
+              </button>
+              <span className="ml-2 text-xs text-gray-500">FPS</span>
+              <input
+                type="number"
+                min="1"
+                step="0.001"
+                value={userFrameRate ?? ''}
+                onChange={(e) => setUserFrameRate(Number(e.target.value) > 0 ? Number(e.target.value) : null)}
+                placeholder={detectedFrameRate ? `${detectedFrameRate} (auto)` : `${DEFAULT_FRAME_RATE}?`}
+                title="留空则自动检测帧率"
+                className="w-24 px-2 py-0.5 text-xs border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
             <span>{formatTime(duration)}</span>
           </div>
         </div>
 
+        {/* Regions being drawn */}
+        {onRegionsChange && (
+          <RegionLabelList regions={regions} onChange={onRegionsChange} />
+        )}
+
         {/* Controls */}
         <div className="flex items-center gap-4">
           {/* Play/Pause */}
@@ -243,6 +442,14 @@ export function VideoPlayer({ videoUrl, onTimeUpdate, isPaused, onPauseChange, s
             />
           </div>
 
+          <LoopControls
+            loop={loop}
+            onSetLoopA={onSetLoopA}
+            onSetLoopB={onSetLoopB}
+            onClearLoop={onClearLoop}
+            formatTime={formatTime}
+          />
+
           {/* Playback Speed */}
           <div className="flex items-center gap-2 ml-auto">
             <span className="text-sm text-gray-600">Speed:</span>
@@ -263,6 +470,30 @@ export function VideoPlayer({ videoUrl, onTimeUpdate, isPaused, onPauseChange, s
             </div>
           </div>
 
+          {/* Segment In/Out */}
+          {isAnnotating && (
+            <div className="flex gap-1">
+              <button
+                onClick={onMarkIn}
+                className={`px-2 py-1 rounded text-sm font-mono transition-colors ${
+                  markIn !== null ? 'bg-amber-500 text-white' : 'bg-amber-100 text-amber-700 hover:bg-amber-200'
+                }`}
+                title="在当前时间标记入点"
+              >
+                [ IN
+              </button>
+              <button
+                onClick={onMarkOut}
+                className={`px-2 py-1 rounded text-sm font-mono transition-colors ${
+                  markOut !== null ? 'bg-amber-500 text-white' : 'bg-amber-100 text-amber-700 hover:bg-amber-200'
+                }`}
+                title="在当前时间标记出点"
+              >
+                OUT ]
+              </button>
+            </div>
+          )}
+
           {/* Subtitles Toggle */}
           {subtitleUrl && (
             <button
@@ -277,8 +508,23 @@ export function VideoPlayer({ videoUrl, onTimeUpdate, isPaused, onPauseChange, s
               <Subtitles className="w-5 h-5" />
             </button>
           )}
+
+          {/* Annotation Track Toggle */}
+          {annotationTrackUrl && (
+            <button
+              onClick={() => setShowAnnotationTrack(!showAnnotationTrack)}
+              className={`p-2 rounded-full transition-colors ${
+                showAnnotationTrack
+                  ? 'bg-blue-100 text-blue-700 hover:bg-blue-200'
+                  : 'bg-gray-100 text-gray-400 hover:bg-gray-200'
+              }`}
+              title={showAnnotationTrack ? '隐藏标注轨道' : '显示标注轨道'}
+            >
+              <MessageSquareText className="w-5 h-5" />
+            </button>
+          )}
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+});
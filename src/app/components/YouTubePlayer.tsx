@@ -1,13 +1,17 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useRef, useState, forwardRef, useImperativeHandle } from 'react';
 import { ExternalLink, Clock } from 'lucide-react';
+import type { PlayerAdapter, PlayerProps } from '../player/types';
+import { createPlayerEvents } from '../player/events';
+import { DEFAULT_FRAME_RATE } from '../utils/frames';
+import { LoopControls } from './LoopControls';
 
-interface YouTubePlayerProps {
+interface YouTubePlayerProps extends PlayerProps {
   videoId: string;
-  onTimeUpdate?: (time: number) => void;
-  isPaused: boolean;
-  onPauseChange: (paused: boolean) => void;
 }
 
+// Seconds between the polled and the expected time above which a jump is a seek
+const SEEK_TOLERANCE = 1;
+
 declare global {
   interface Window {
     YT: any;
@@ -15,13 +19,62 @@ declare global {
   }
 }
 
-export function YouTubePlayer({ videoId, onTimeUpdate, isPaused, onPauseChange }: YouTubePlayerProps) {
+export const YouTubePlayer = forwardRef<PlayerAdapter, YouTubePlayerProps>(function YouTubePlayer(
+  {
+    videoId,
+    onTimeUpdate,
+    onDurationChange,
+    isPaused,
+    onPauseChange,
+    isAnnotating,
+    markIn = null,
+    markOut = null,
+    onMarkIn,
+    onMarkOut,
+    loop,
+    onSetLoopA,
+    onSetLoopB,
+    onClearLoop,
+  },
+  ref
+) {
   const playerRef = useRef<any>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [isReady, setIsReady] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [hasError, setHasError] = useState(false);
   const timeUpdateIntervalRef = useRef<number | null>(null);
+  // Seek requested before the player was ready; applied in onReady
+  const pendingSeekRef = useRef<number | null>(null);
+  const eventsRef = useRef(createPlayerEvents());
+  const reportedDurationRef = useRef(0);
+  // Time at the last poll (or adapter seek), used to tell seeks made with the
+  // YouTube controls apart from normal playback
+  const lastPollRef = useRef<{ time: number; at: number } | null>(null);
+
+  // getDuration() returns 0 until metadata is available (often only once
+  // playback starts), so it is polled with the time and reported when it changes
+  const reportDuration = () => {
+    const duration = playerRef.current?.getDuration?.() ?? 0;
+    if (duration > 0 && duration !== reportedDurationRef.current) {
+      reportedDurationRef.current = duration;
+      onDurationChange?.(duration);
+    }
+  };
+
+  // The IFrame API has no seek event, so a polled time that is more than
+  // SEEK_TOLERANCE away from where playback should be counts as a seek
+  const detectSeek = (time: number) => {
+    const now = performance.now();
+    const last = lastPollRef.current;
+    lastPollRef.current = { time, at: now };
+    if (!last) return;
+    const isPlaying = playerRef.current.getPlayerState?.() === window.YT.PlayerState.PLAYING;
+    const expected = last.time + (isPlaying ? ((now - last.at) / 1000) * playerRef.current.getPlaybackRate() : 0);
+    if (Math.abs(time - expected) > SEEK_TOLERANCE) {
+      eventsRef.current.emit('seek', { time });
+    }
+  };
 
   const youtubeUrl = `https://www.youtube.com/watch?v=${videoId}`;
 
@@ -52,12 +105,24 @@ export function YouTubePlayer({ videoId, onTimeUpdate, isPaused, onPauseChange }
               console.log('YouTube player ready');
               setIsReady(true);
               setHasError(false);
+
+              reportedDurationRef.current = 0;
+              lastPollRef.current = null;
+              reportDuration();
+
+              if (pendingSeekRef.current !== null) {
+                event.target.seekTo(pendingSeekRef.current, true);
+                pendingSeekRef.current = null;
+              }
+              eventsRef.current.emit('ready', undefined);
               
               // Start time update interval
               timeUpdateIntervalRef.current = window.setInterval(() => {
                 if (playerRef.current && playerRef.current.getCurrentTime) {
                   try {
                     const time = playerRef.current.getCurrentTime();
+                    detectSeek(time);
+                    reportDuration();
                     setCurrentTime(time);
                     if (onTimeUpdate) {
                       onTimeUpdate(time);
@@ -91,11 +156,20 @@ export function YouTubePlayer({ videoId, onTimeUpdate, isPaused, onPauseChange }
               console.log('Error message:', errorMessage);
               setHasError(true);
               setIsReady(false);
+              eventsRef.current.emit('error', { message: errorMessage });
             },
             onStateChange: (event: any) => {
-              // Update pause state based on player state
-              const isPlayerPaused = event.data !== window.YT.PlayerState.PLAYING;
-              onPauseChange(isPlayerPaused);
+              // Only playing, paused and ended change the pause state; buffering
+              // (e.g. right after a seek), cued and unstarted are transient
+              const { PLAYING, PAUSED, ENDED } = window.YT.PlayerState;
+              if (event.data === PLAYING) {
+                onPauseChange(false);
+              } else if (event.data === PAUSED || event.data === ENDED) {
+                onPauseChange(true);
+              }
+              if (event.data === ENDED) {
+                eventsRef.current.emit('ended', undefined);
+              }
             },
           },
         });
@@ -117,6 +191,42 @@ export function YouTubePlayer({ videoId, onTimeUpdate, isPaused, onPauseChange }
     };
   }, [videoId]);
 
+  useImperativeHandle(ref, () => ({
+    play: () => onPauseChange(false),
+    pause: () => onPauseChange(true),
+    seek: (time: number) => {
+      if (playerRef.current && isReady) {
+        playerRef.current.seekTo(time, true);
+        lastPollRef.current = { time, at: performance.now() };
+        setCurrentTime(time);
+        onTimeUpdate?.(time);
+      } else {
+        pendingSeekRef.current = time;
+      }
+    },
+    getDuration: () => (isReady ? playerRef.current.getDuration() : 0),
+    getCurrentTime: () => (isReady ? playerRef.current.getCurrentTime() : 0),
+    setPlaybackRate: (rate: number) => {
+      if (isReady) {
+        playerRef.current.setPlaybackRate(rate);
+      }
+    },
+    getPlaybackRate: () => (isReady ? playerRef.current.getPlaybackRate() : 1),
+    // The IFrame API exposes no frame rate, so steps assume the default
+    stepFrame: (frames: number) => {
+      if (isReady) {
+        onPauseChange(true);
+        const time = Math.max(playerRef.current.getCurrentTime() + frames / DEFAULT_FRAME_RATE, 0);
+        playerRef.current.seekTo(time, true);
+        lastPollRef.current = { time, at: performance.now() };
+        setCurrentTime(time);
+        onTimeUpdate?.(time);
+      }
+    },
+    getFrameRate: () => DEFAULT_FRAME_RATE,
+    on: eventsRef.current.on,
+  }), [isReady, onTimeUpdate, onPauseChange]);
+
   useEffect(() => {
     if (playerRef.current && isReady) {
       try {
@@ -184,6 +294,43 @@ export function YouTubePlayer({ videoId, onTimeUpdate, isPaused, onPauseChange }
               </p>
             )}
           </div>
+
+          {isReady && (
+            <div className="flex items-center gap-2">
+              <span className="font-medium">循环:</span>
+              <LoopControls
+                loop={loop}
+                onSetLoopA={onSetLoopA}
+                onSetLoopB={onSetLoopB}
+                onClearLoop={onClearLoop}
+                formatTime={formatTime}
+              />
+            </div>
+          )}
+
+          {isAnnotating && isReady && (
+            <div className="flex items-center gap-2">
+              <span className="font-medium">片段:</span>
+              <button
+                onClick={onMarkIn}
+                className={`px-2 py-1 rounded text-xs font-mono transition-colors ${
+                  markIn !== null ? 'bg-amber-500 text-white' : 'bg-amber-100 text-amber-700 hover:bg-amber-200'
+                }`}
+                title="在当前时间标记入点"
+              >
+                [ IN {markIn !== null && formatTime(markIn)}
+              </button>
+              <button
+                onClick={onMarkOut}
+                className={`px-2 py-1 rounded text-xs font-mono transition-colors ${
+                  markOut !== null ? 'bg-amber-500 text-white' : 'bg-amber-100 text-amber-700 hover:bg-amber-200'
+                }`}
+                title="在当前时间标记出点"
+              >
+                OUT {markOut !== null && formatTime(markOut)} ]
+              </button>
+            </div>
+          )}
           
           {hasError && (
             <div className="border-t border-gray-200 pt-2 mt-2">
@@ -214,4 +361,4 @@ export function YouTubePlayer({ videoId, onTimeUpdate, isPaused, onPauseChange }
       </div>
     </div>
   );
-}
\ No newline at end of file
+});
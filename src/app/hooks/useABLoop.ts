@@ -0,0 +1,39 @@
+import { RefObject, useCallback, useRef, useState } from 'react';
+import type { ABLoop, PlayerAdapter } from '../player/types';
+
+const EMPTY_LOOP: ABLoop = { a: null, b: null };
+// Overshoot past B that still counts as playing through it; seeking further
+// out leaves the loop alone so the rest of the video stays reachable
+const LOOP_OVERSHOOT = 1;
+
+// A-B loop driven through the player adapter, so it works for every source.
+// checkLoop must be called on each time update; once playback reaches the
+// later point it jumps back to the earlier one.
+export function useABLoop(playerRef: RefObject<PlayerAdapter>) {
+  const [loop, setLoopState] = useState<ABLoop>(EMPTY_LOOP);
+  const loopRef = useRef(loop);
+
+  const setLoop = (next: ABLoop) => {
+    loopRef.current = next;
+    setLoopState(next);
+  };
+
+  const checkLoop = useCallback((time: number) => {
+    const { a, b } = loopRef.current;
+    if (a === null || b === null || a === b) return;
+    const start = Math.min(a, b);
+    const end = Math.max(a, b);
+    if (time >= end && time < end + LOOP_OVERSHOOT) {
+      playerRef.current?.seek(start);
+    }
+  }, [playerRef]);
+
+  return {
+    loop,
+    setA: (time: number) => setLoop({ ...loopRef.current, a: time }),
+    setB: (time: number) => setLoop({ ...loopRef.current, b: time }),
+    setLoop: (a: number, b: number) => setLoop({ a, b }),
+    clearLoop: () => setLoop(EMPTY_LOOP),
+    checkLoop,
+  };
+}
@@ -0,0 +1,38 @@
+import { useEffect, useRef } from 'react';
+import {
+  eventToCombo,
+  isActivationKey,
+  isTypingTarget,
+  ShortcutAction,
+  ShortcutBindings,
+  TEXT_FIELD_ACTIONS,
+} from '../utils/shortcuts';
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+// Dispatches window keydown events to the handler bound to the pressed combo.
+// While a text field has focus only Ctrl/Cmd combos are handled, except the
+// ones the field handles itself; Space and Enter still press a focused button.
+export function useKeyboardShortcuts(bindings: ShortcutBindings, handlers: ShortcutHandlers, enabled = true) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const combo = eventToCombo(event);
+      if (!combo || isActivationKey(event.target, combo)) return;
+      const isTyping = isTypingTarget(event.target);
+      if (isTyping && !combo.startsWith('Ctrl+')) return;
+      const action = (Object.keys(bindings) as ShortcutAction[]).find((candidate) => bindings[candidate] === combo);
+      if (isTyping && action && TEXT_FIELD_ACTIONS.includes(action)) return;
+      const handler = action && handlersRef.current[action];
+      if (handler) {
+        event.preventDefault();
+        handler();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings, enabled]);
+}
@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+// blob: URL for generated text content, revoked when the content changes
+export function useObjectUrl(content: string | null, type: string): string {
+  const [url, setUrl] = useState('');
+
+  useEffect(() => {
+    if (content === null) {
+      setUrl('');
+      return;
+    }
+    const objectUrl = URL.createObjectURL(new Blob([content], { type }));
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [content, type]);
+
+  return url;
+}
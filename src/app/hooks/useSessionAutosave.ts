@@ -0,0 +1,67 @@
+import { useEffect, useRef } from 'react';
+import { saveSession, SessionSnapshot } from '../utils/sessionStore';
+
+const SAVE_DEBOUNCE_MS = 800;
+const TIME_SAVE_INTERVAL_MS = 5000;
+
+export type SessionState = Omit<SessionSnapshot, 'currentTime' | 'savedAt'>;
+
+// Persists the session whenever it changes. The playback position changes
+// several times per second, so it is only written periodically and on pagehide.
+// Pass null to pause autosaving (e.g. while a restore prompt is pending).
+export function useSessionAutosave(session: SessionState | null, currentTime: number) {
+  const sessionRef = useRef(session);
+  const timeRef = useRef(currentTime);
+  const lastSavedTimeRef = useRef<number | null>(null);
+  const isUnmountingRef = useRef(false);
+
+  sessionRef.current = session;
+  timeRef.current = currentTime;
+
+  const save = (state = sessionRef.current) => {
+    if (!state) return;
+    const time = timeRef.current;
+    lastSavedTimeRef.current = time;
+    saveSession({ ...state, currentTime: time, savedAt: Date.now() }).catch((error) => {
+      console.error('Autosave failed:', error);
+    });
+  };
+
+  // Declared before the save effect, so its cleanup runs first on unmount
+  useEffect(() => () => {
+    isUnmountingRef.current = true;
+  }, []);
+
+  useEffect(() => {
+    if (!session) return;
+    let isPending = true;
+    const timer = window.setTimeout(() => {
+      isPending = false;
+      save();
+    }, SAVE_DEBOUNCE_MS);
+    return () => {
+      window.clearTimeout(timer);
+      // A newer state of the same session replaces this one; when another video
+      // is loaded or the app unmounts, the last edits are written right away
+      if (isPending && (isUnmountingRef.current || sessionRef.current?.key !== session.key)) {
+        save(session);
+      }
+    };
+  }, [session]);
+
+  useEffect(() => {
+    if (!session) return;
+    const interval = window.setInterval(() => {
+      if (timeRef.current !== lastSavedTimeRef.current) {
+        save();
+      }
+    }, TIME_SAVE_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [session?.key]);
+
+  useEffect(() => {
+    const handlePageHide = () => save();
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, []);
+}
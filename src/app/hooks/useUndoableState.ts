@@ -0,0 +1,108 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+
+// Older operations are dropped once the history is this long
+export const MAX_HISTORY = 100;
+
+export interface HistoryEntry<T> {
+  id: number;
+  label: string;
+  before: T;
+  after: T;
+}
+
+// Operations that can be undone (oldest first) and redone (next first)
+export interface UndoHistory<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+interface HistoryState<T> extends UndoHistory<T> {
+  present: T;
+}
+
+// State whose changes are recorded as labelled operations that can be undone
+// and redone. Entries hold whole snapshots, so any operation (including bulk
+// edits) is undoable without a dedicated inverse.
+export function useUndoableState<T>(initial: T) {
+  const [state, setState] = useState<HistoryState<T>>({ present: initial, past: [], future: [] });
+  const nextIdRef = useRef(0);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // Returns the entry id, which undo() can be given to only undo this operation
+  const commit = useCallback((label: string, update: (current: T) => T): number => {
+    const id = ++nextIdRef.current;
+    setState(({ present, past }) => {
+      const after = update(present);
+      return {
+        present: after,
+        past: [...past, { id, label, before: present, after }].slice(-MAX_HISTORY),
+        future: [],
+      };
+    });
+    return id;
+  }, []);
+
+  // For changes that complete an earlier operation rather than being one (e.g.
+  // data that arrives asynchronously); applied to every snapshot so undo and
+  // redo keep it
+  const amend = useCallback((update: (current: T) => T) => {
+    setState(({ present, past, future }) => {
+      const amendEntry = (entry: HistoryEntry<T>) => ({ ...entry, before: update(entry.before), after: update(entry.after) });
+      return { present: update(present), past: past.map(amendEntry), future: future.map(amendEntry) };
+    });
+  }, []);
+
+  // Replaces the state and the history, e.g. when another video is loaded (no
+  // history) or a saved session is restored (its saved history)
+  const reset = useCallback((value: T, history?: UndoHistory<T>) => {
+    const past = history?.past.slice(-MAX_HISTORY) ?? [];
+    const future = history?.future.slice(0, MAX_HISTORY) ?? [];
+    // Restored entries keep their ids, so new ones must not reuse them
+    nextIdRef.current = Math.max(nextIdRef.current, ...[...past, ...future].map((entry) => entry.id));
+    setState({ present: value, past, future });
+  }, []);
+
+  // Returns false when there is nothing to undo, or when expectedId is given
+  // and later operations have been recorded since that one
+  const undo = useCallback((expectedId?: number): boolean => {
+    const top = stateRef.current.past[stateRef.current.past.length - 1];
+    if (!top || (expectedId !== undefined && top.id !== expectedId)) return false;
+    setState((current) => {
+      const entry = current.past[current.past.length - 1];
+      if (!entry || (expectedId !== undefined && entry.id !== expectedId)) return current;
+      return { present: entry.before, past: current.past.slice(0, -1), future: [entry, ...current.future] };
+    });
+    return true;
+  }, []);
+
+  const redo = useCallback(() => {
+    setState((current) => {
+      const [entry, ...future] = current.future;
+      if (!entry) return current;
+      return { present: entry.after, past: [...current.past, entry], future };
+    });
+  }, []);
+
+  // Every value undo and redo can still return to, so resources they reference can be kept
+  const retained = useMemo(
+    () => [state.present, ...[...state.past, ...state.future].flatMap((entry) => [entry.before, entry.after])],
+    [state]
+  );
+
+  const history = useMemo<UndoHistory<T>>(() => ({ past: state.past, future: state.future }), [state]);
+
+  return {
+    value: state.present,
+    history,
+    retained,
+    commit,
+    amend,
+    reset,
+    undo,
+    redo,
+    // Labels of the operations undo() and redo() would apply, if any
+    undoLabel: state.past[state.past.length - 1]?.label ?? null,
+    redoLabel: state.future[0]?.label ?? null,
+  };
+}
@@ -0,0 +1,24 @@
+import type { PlayerEvent, PlayerEventListener, PlayerEventMap } from './types';
+
+export interface PlayerEvents {
+  on: <E extends PlayerEvent>(event: E, listener: PlayerEventListener<E>) => () => void;
+  emit: <E extends PlayerEvent>(event: E, payload: PlayerEventMap[E]) => void;
+}
+
+export function createPlayerEvents(): PlayerEvents {
+  const listeners = new Map<PlayerEvent, Set<(payload: unknown) => void>>();
+
+  return {
+    on: (event, listener) => {
+      const set = listeners.get(event) ?? new Set();
+      set.add(listener as (payload: unknown) => void);
+      listeners.set(event, set);
+      return () => {
+        set.delete(listener as (payload: unknown) => void);
+      };
+    },
+    emit: (event, payload) => {
+      listeners.get(event)?.forEach((listener) => listener(payload));
+    },
+  };
+}
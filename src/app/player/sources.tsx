@@ -0,0 +1,97 @@
+import type { ReactNode, Ref } from 'react';
+import { VideoPlayer } from '../components/VideoPlayer';
+import { YouTubePlayer } from '../components/YouTubePlayer';
+import type { PlayerAdapter, PlayerProps } from './types';
+import { getUrlSessionKey } from '../utils/sessionStore';
+import type { Region } from '../components/AnnotationPanel';
+
+export interface VideoSource {
+  // Key of the PlayerSourceDefinition that plays this source
+  kind: string;
+  url: string;
+  // Source-specific identifier, e.g. the YouTube video id
+  id: string;
+  // Shown to the user and written to exports; empty when there is none
+  fileName: string;
+}
+
+// Extra inputs a host can offer; players that cannot use them ignore them
+export interface PlayerHostProps extends PlayerProps {
+  subtitleUrl?: string;
+  annotationTrackUrl?: string;
+  // Regions drawn over the frame; editable when onRegionsChange is set
+  regions?: Region[];
+  onRegionsChange?: (regions: Region[]) => void;
+}
+
+export interface PlayerSourceDefinition {
+  kind: string;
+  // Returns a source when this definition can play the URL
+  resolve: (url: string) => VideoSource | null;
+  getSessionKey: (source: VideoSource) => string;
+  supportsSubtitles: boolean;
+  render: (source: VideoSource, props: PlayerHostProps, ref: Ref<PlayerAdapter>) => ReactNode;
+}
+
+// Helper function to extract YouTube video ID
+function extractYouTubeVideoId(url: string): string | null {
+  const patterns = [
+    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\s?]+)/,
+    /^([a-zA-Z0-9_-]{11})$/,
+  ];
+  
+  for (const pattern of patterns) {
+    const match = url.match(pattern);
+    if (match && match[1]) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+const youtubeSource: PlayerSourceDefinition = {
+  kind: 'youtube',
+  resolve: (url) => {
+    const videoId = extractYouTubeVideoId(url);
+    return videoId ? { kind: 'youtube', url, id: videoId, fileName: '' } : null;
+  },
+  getSessionKey: (source) => `youtube:${source.id}`,
+  supportsSubtitles: false,
+  render: (source, { subtitleUrl, annotationTrackUrl, regions, onRegionsChange, ...props }, ref) => (
+    <YouTubePlayer ref={ref} videoId={source.id} {...props} />
+  ),
+};
+
+const directSource: PlayerSourceDefinition = {
+  kind: 'direct',
+  resolve: (url) => ({ kind: 'direct', url, id: url, fileName: url.split('/').pop() || '' }),
+  getSessionKey: (source) => getUrlSessionKey(source.url),
+  supportsSubtitles: true,
+  render: (source, props, ref) => <VideoPlayer ref={ref} videoUrl={source.url} {...props} />,
+};
+
+// Tried in order; direct links accept any URL, so they must stay last.
+// New sources are added by registering a definition here.
+export const PLAYER_SOURCES: PlayerSourceDefinition[] = [youtubeSource, directSource];
+
+export function resolveVideoSource(url: string): VideoSource | null {
+  for (const definition of PLAYER_SOURCES) {
+    const source = definition.resolve(url);
+    if (source) return source;
+  }
+  return null;
+}
+
+export function getPlayerSource(kind: string): PlayerSourceDefinition {
+  const definition = PLAYER_SOURCES.find((candidate) => candidate.kind === kind);
+  if (!definition) {
+    throw new Error(`No player registered for source "${kind}"`);
+  }
+  return definition;
+}
+
+// Local files always play through the <video> element
+export function createFileSource(file: File): VideoSource {
+  const url = URL.createObjectURL(file);
+  return { kind: 'direct', url, id: url, fileName: file.name };
+}
@@ -0,0 +1,70 @@
+import type { CapturedFrame } from '../utils/frameCapture';
+
+export interface PlayerEventMap {
+  ready: void;
+  error: { message: string };
+  ended: void;
+  // Seeks made with the player's own controls; seeks through the adapter are not reported
+  seek: { time: number };
+}
+
+export type PlayerEvent = keyof PlayerEventMap;
+
+export type PlayerEventListener<E extends PlayerEvent> = (payload: PlayerEventMap[E]) => void;
+
+// Contract every player implements, so features built on top (seeking from
+// the list, loops, shortcuts, the timeline) work the same for every source.
+// Times are in seconds.
+export interface PlayerAdapter {
+  play: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+  getDuration: () => number;
+  getCurrentTime: () => number;
+  setPlaybackRate: (rate: number) => void;
+  getPlaybackRate: () => number;
+  // Steps whole frames (negative steps back) and pauses
+  stepFrame: (frames: number) => void;
+  getFrameRate: () => number;
+  // Only players that render their own subtitle track implement this
+  toggleSubtitles?: () => void;
+  // Text of the subtitle cues active at the current time, '' when there are none
+  getSubtitleText?: () => string;
+  // Grabs the frame currently shown; players that cannot read pixels omit it
+  captureFrame?: () => Promise<CapturedFrame>;
+  // Returns an unsubscribe function
+  on: <E extends PlayerEvent>(event: E, listener: PlayerEventListener<E>) => () => void;
+}
+
+// In/out point marking, shown by the players while an annotation is in progress
+export interface SegmentMarkProps {
+  isAnnotating?: boolean;
+  markIn?: number | null;
+  markOut?: number | null;
+  onMarkIn?: () => void;
+  onMarkOut?: () => void;
+}
+
+// Loop points in seconds; the loop is active once both are set
+export interface ABLoop {
+  a: number | null;
+  b: number | null;
+}
+
+// A-B loop controls; the loop itself is enforced by App through the adapter
+export interface LoopControlProps {
+  loop?: ABLoop;
+  onSetLoopA?: () => void;
+  onSetLoopB?: () => void;
+  onClearLoop?: () => void;
+}
+
+// Props shared by every player component
+export interface PlayerProps extends SegmentMarkProps, LoopControlProps {
+  onTimeUpdate?: (time: number) => void;
+  onDurationChange?: (duration: number) => void;
+  // Reported by players that know the frame rate (detected or entered by the user)
+  onFrameRateChange?: (frameRate: number | null) => void;
+  isPaused: boolean;
+  onPauseChange: (paused: boolean) => void;
+}
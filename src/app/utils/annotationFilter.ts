@@ -0,0 +1,76 @@
+import type { Annotation } from '../components/AnnotationPanel';
+import type { CustomFieldDefinition } from './customFields';
+
+// 'created' is the order annotations were added (or imported) in
+export type AnnotationSort = 'timestamp' | 'created';
+
+export interface AnnotationFilter {
+  // Whitespace-separated terms, all of which must appear in the question or requirements
+  query: string;
+  // Empty matches every type
+  types: string[];
+  // Bounds on the timestamp in seconds; null leaves that side open
+  from: number | null;
+  to: number | null;
+  // Values of the project's tag fields; an annotation needs at least one of them
+  tags: string[];
+  sort: AnnotationSort;
+  // Whether the timeline and exports show the filtered list instead of every annotation
+  applyToOutputs: boolean;
+}
+
+export const EMPTY_FILTER: AnnotationFilter = {
+  query: '',
+  types: [],
+  from: null,
+  to: null,
+  tags: [],
+  sort: 'timestamp',
+  applyToOutputs: false,
+};
+
+// Sorting alone does not count; every annotation is still listed
+export function isFilterActive(filter: AnnotationFilter): boolean {
+  return (
+    filter.query.trim() !== ''
+    || filter.types.length > 0
+    || filter.from !== null
+    || filter.to !== null
+    || filter.tags.length > 0
+  );
+}
+
+function getTags(annotation: Annotation, tagFields: CustomFieldDefinition[]): string[] {
+  return tagFields.flatMap((field) => {
+    const value = annotation.fields?.[field.key];
+    return Array.isArray(value) ? value : [];
+  });
+}
+
+// Distinct tag values in use, for the filter chips
+export function collectTags(annotations: Annotation[], fieldSchema: CustomFieldDefinition[]): string[] {
+  const tagFields = fieldSchema.filter((field) => field.kind === 'tags');
+  const tags = new Set(annotations.flatMap((annotation) => getTags(annotation, tagFields)));
+  return [...tags].sort((a, b) => a.localeCompare(b));
+}
+
+export function filterAnnotations(
+  annotations: Annotation[],
+  filter: AnnotationFilter,
+  fieldSchema: CustomFieldDefinition[]
+): Annotation[] {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const tagFields = fieldSchema.filter((field) => field.kind === 'tags');
+  const matches = annotations.filter((annotation) => {
+    if (filter.types.length > 0 && !filter.types.includes(annotation.type)) return false;
+    if (filter.from !== null && annotation.timestamp < filter.from) return false;
+    if (filter.to !== null && annotation.timestamp > filter.to) return false;
+    if (filter.tags.length > 0 && !getTags(annotation, tagFields).some((tag) => filter.tags.includes(tag))) {
+      return false;
+    }
+    const text = `${annotation.question}\n${annotation.requirements}`.toLowerCase();
+    return terms.every((term) => text.includes(term));
+  });
+  // Array.prototype.sort is stable, so equal timestamps keep creation order
+  return filter.sort === 'timestamp' ? matches.sort((a, b) => a.timestamp - b.timestamp) : matches;
+}
@@ -0,0 +1,278 @@
+import type { Annotation, DialogueTurn, Region, RegionShape } from '../components/AnnotationPanel';
+import { createAnnotationId, getFrameFile } from './annotations';
+import { migrateExport } from './exportSchema';
+import { AnnotationTypeConfig, describeFields, getMissingFields, parseTypeConfigs } from './annotationTypes';
+import { CustomFieldDefinition, CustomFieldValues, parseFieldSchema, validateFieldValue } from './customFields';
+
+export interface ImportRowError {
+  // 1-based position of the entry (or spreadsheet row) in the imported file
+  row: number;
+  message: string;
+}
+
+export interface ImportResult {
+  annotations: Annotation[];
+  errors: ImportRowError[];
+  // Types defined by the file that the project does not have yet
+  annotationTypes?: AnnotationTypeConfig[];
+  // Likewise for custom fields
+  fieldSchema?: CustomFieldDefinition[];
+}
+
+// What imported entries are checked against
+export interface ImportContext {
+  types: AnnotationTypeConfig[];
+  fieldSchema: CustomFieldDefinition[];
+}
+
+export type ImportMode = 'replace' | 'merge';
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+const REGION_POINT_COUNTS: Record<RegionShape, (count: number) => boolean> = {
+  rect: (count) => count === 2,
+  polygon: (count) => count >= 3,
+  point: (count) => count === 1,
+};
+
+function isValidRegion(raw: unknown): boolean {
+  if (typeof raw !== 'object' || raw === null) return false;
+  const region = raw as Record<string, unknown>;
+  const countIsValid = REGION_POINT_COUNTS[region.shape as RegionShape];
+  return (
+    Boolean(countIsValid)
+    && typeof region.label === 'string'
+    && Array.isArray(region.points)
+    && countIsValid(region.points.length)
+    && region.points.every((point) => {
+      const { x, y } = (point ?? {}) as Record<string, unknown>;
+      return isNonNegativeNumber(x) && isNonNegativeNumber(y) && x <= 1 && y <= 1;
+    })
+  );
+}
+
+// Checks one exported entry against the Annotation shape and the required
+// fields of its type. Exported files do not carry ids, and any id present is
+// ignored so imports never clash.
+export function validateAnnotation(
+  raw: unknown,
+  { types, fieldSchema }: ImportContext
+): { annotation?: Annotation; errors: string[] } {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { errors: ['entry is not an object'] };
+  }
+  const entry = raw as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!isNonNegativeNumber(entry.timestamp)) {
+    errors.push('"timestamp" must be a non-negative number');
+  }
+  const typeConfig = types.find((type) => type.name === entry.type);
+  if (!typeConfig) {
+    errors.push(`"type" must be one of ${types.map((type) => type.name).join(', ')}`);
+  }
+  if (typeof entry.question !== 'string' || !entry.question.trim()) {
+    errors.push('"question" must be a non-empty string');
+  }
+  if (typeof entry.requirements !== 'string') {
+    errors.push('"requirements" must be a string');
+  }
+  if (!isNonNegativeNumber(entry.feedbackDuration)) {
+    errors.push('"feedbackDuration" must be a non-negative number');
+  }
+  const range = entry.range as Record<string, unknown> | undefined | null;
+  if (range !== undefined && range !== null) {
+    if (typeof range !== 'object' || !isNonNegativeNumber(range.start) || !isNonNegativeNumber(range.end)) {
+      errors.push('"range" must have non-negative "start" and "end" numbers');
+    } else if (range.end <= range.start) {
+      errors.push('"range.end" must be greater than "range.start"');
+    }
+  }
+  if (entry.frameIndex !== undefined || entry.frameRate !== undefined) {
+    if (!Number.isInteger(entry.frameIndex) || (entry.frameIndex as number) < 0) {
+      errors.push('"frameIndex" must be a non-negative integer');
+    }
+    if (!isNonNegativeNumber(entry.frameRate) || entry.frameRate === 0) {
+      errors.push('"frameRate" must be a positive number');
+    }
+  }
+  if (entry.regions !== undefined) {
+    if (!Array.isArray(entry.regions)) {
+      errors.push('"regions" must be an array');
+    } else {
+      entry.regions.forEach((region, index) => {
+        if (!isValidRegion(region)) {
+          errors.push(`"regions[${index}]" must have a shape, a label and points with x/y between 0 and 1`);
+        }
+      });
+    }
+  }
+  const fields = entry.fields as Record<string, unknown> | undefined | null;
+  if (fields !== undefined && fields !== null && (typeof fields !== 'object' || Array.isArray(fields))) {
+    errors.push('"fields" must be an object');
+  } else {
+    Object.keys(fields ?? {}).forEach((key) => {
+      if (!fieldSchema.some((field) => field.key === key)) {
+        errors.push(`"fields.${key}" is not a field of this project`);
+      }
+    });
+    fieldSchema.forEach((field) => {
+      const message = validateFieldValue(field, fields?.[field.key] as CustomFieldValues[string] | undefined);
+      if (message) {
+        errors.push(`"fields.${field.key}": ${message}`);
+      }
+    });
+  }
+  const frame = entry.frame as Record<string, unknown> | undefined | null;
+  if (frame !== undefined && frame !== null) {
+    if (
+      typeof frame !== 'object'
+      || typeof frame.file !== 'string'
+      || typeof frame.thumbnail !== 'string'
+      || !isNonNegativeNumber(frame.width)
+      || !isNonNegativeNumber(frame.height)
+    ) {
+      errors.push('"frame" must have "file" and "thumbnail" strings and "width"/"height" numbers');
+    }
+  }
+  if (entry.answer !== undefined && typeof entry.answer !== 'string') {
+    errors.push('"answer" must be a string');
+  }
+  if (entry.followUps !== undefined) {
+    if (!Array.isArray(entry.followUps)) {
+      errors.push('"followUps" must be an array');
+    } else {
+      entry.followUps.forEach((turn: unknown, index: number) => {
+        const { question, answer } = (turn ?? {}) as Record<string, unknown>;
+        if (typeof question !== 'string' || !question.trim() || typeof answer !== 'string') {
+          errors.push(`"followUps[${index}]" must have a non-empty "question" and a string "answer"`);
+        }
+      });
+    }
+  }
+
+  if (errors.length === 0 && typeConfig) {
+    const missing = getMissingFields(
+      {
+        requirements: entry.requirements as string,
+        answer: entry.answer as string | undefined,
+        hasRange: Boolean(range),
+        regionCount: Array.isArray(entry.regions) ? entry.regions.length : 0,
+      },
+      typeConfig
+    );
+    if (missing.length > 0) {
+      errors.push(`${typeConfig.name} annotations require: ${describeFields(missing)}`);
+    }
+  }
+  if (errors.length > 0) {
+    return { errors };
+  }
+  const id = createAnnotationId();
+  return {
+    annotation: {
+      id,
+      timestamp: entry.timestamp as number,
+      type: entry.type as Annotation['type'],
+      question: entry.question as string,
+      requirements: entry.requirements as string,
+      feedbackDuration: entry.feedbackDuration as number,
+      ...(range ? { range: { start: range.start as number, end: range.end as number } } : {}),
+      ...(entry.frameRate !== undefined
+        ? { frameIndex: entry.frameIndex as number, frameRate: entry.frameRate as number }
+        : {}),
+      ...(frame
+        ? {
+            // No image comes with an import, only the thumbnail. The path is
+            // rewritten for the new id so it cannot resolve to another
+            // annotation's stored frame.
+            frame: {
+              file: getFrameFile(id),
+              width: frame.width as number,
+              height: frame.height as number,
+              thumbnail: frame.thumbnail as string,
+            },
+          }
+        : {}),
+      ...(Array.isArray(entry.regions) && entry.regions.length > 0
+        ? {
+            regions: (entry.regions as Region[]).map(({ shape, label, points }) => ({
+              shape,
+              label,
+              points: points.map(({ x, y }) => ({ x, y })),
+            })),
+          }
+        : {}),
+      ...(fields && Object.keys(fields).length > 0 ? { fields: { ...fields } as CustomFieldValues } : {}),
+      ...(entry.answer ? { answer: entry.answer as string } : {}),
+      ...(Array.isArray(entry.followUps) && entry.followUps.length > 0
+        ? {
+            followUps: (entry.followUps as DialogueTurn[]).map(({ question, answer }) => ({ question, answer })),
+          }
+        : {}),
+    },
+    errors,
+  };
+}
+
+export function validateAnnotations(entries: unknown[], context: ImportContext, firstRow = 1): ImportResult {
+  const result: ImportResult = { annotations: [], errors: [] };
+  entries.forEach((entry, index) => {
+    const { annotation, errors } = validateAnnotation(entry, context);
+    if (annotation) {
+      result.annotations.push(annotation);
+    }
+    errors.forEach((message) => result.errors.push({ row: index + firstRow, message }));
+  });
+  return result;
+}
+
+// Parses a file written by GENERATE JSON, upgrading older schema versions first.
+// Throws when the file as a whole is unusable; bad entries are reported per row.
+// Types and fields the file defines but the project lacks are accepted and returned.
+export function parseAnnotationJson(text: string, { types, fieldSchema }: ImportContext): ImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('File is not an annotation export.');
+  }
+  const doc = migrateExport(data as Record<string, unknown>);
+  const entries = doc.annotations;
+  if (!Array.isArray(entries)) {
+    throw new Error('File has no "annotations" array.');
+  }
+  const newTypes = (parseTypeConfigs(doc.annotationTypes) ?? []).filter(
+    (fileType) => !types.some((type) => type.name === fileType.name)
+  );
+  const newFields = (parseFieldSchema(doc.fieldSchema) ?? []).filter(
+    (fileField) => !fieldSchema.some((field) => field.key === fileField.key)
+  );
+  const result = validateAnnotations(entries, {
+    types: [...types, ...newTypes],
+    fieldSchema: [...fieldSchema, ...newFields],
+  });
+  const usedTypes = newTypes.filter((type) => result.annotations.some((annotation) => annotation.type === type.name));
+  return {
+    ...result,
+    ...(usedTypes.length > 0 ? { annotationTypes: usedTypes } : {}),
+    ...(newFields.length > 0 ? { fieldSchema: newFields } : {}),
+  };
+}
+
+function isSameAnnotation(a: Annotation, b: Annotation): boolean {
+  return a.timestamp === b.timestamp && a.type === b.type && a.question === b.question;
+}
+
+export function applyImport(current: Annotation[], imported: Annotation[], mode: ImportMode): Annotation[] {
+  if (mode === 'replace') {
+    return imported;
+  }
+  const additions = imported.filter((annotation) => !current.some((existing) => isSameAnnotation(existing, annotation)));
+  return [...current, ...additions];
+}
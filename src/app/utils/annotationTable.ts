@@ -0,0 +1,132 @@
+import type { Annotation } from '../components/AnnotationPanel';
+import { parseDelimited, serializeDelimited, unguardFormula } from './delimited';
+import { validateAnnotations, ImportContext, ImportResult } from './annotationImport';
+import { formatPreciseTime, parseTime } from './time';
+
+export type TableDelimiter = ',' | '\t';
+
+const COLUMNS = [
+  'timestamp',
+  'time',
+  'type',
+  'question',
+  'requirements',
+  'feedbackDuration',
+  'rangeStart',
+  'rangeEnd',
+  'frameIndex',
+  'frameRate',
+  'answer',
+  'followUps',
+  'regions',
+  'fields',
+] as const;
+// Columns that older files or hand-made sheets may leave out
+const OPTIONAL_COLUMNS: readonly string[] = [
+  'time',
+  'timestamp',
+  'rangeStart',
+  'rangeEnd',
+  'frameIndex',
+  'frameRate',
+  'answer',
+  'followUps',
+  'regions',
+  'fields',
+];
+
+export function buildAnnotationTable(annotations: Annotation[], delimiter: TableDelimiter): string {
+  const rows = annotations.map((annotation) => [
+    String(annotation.timestamp),
+    formatPreciseTime(annotation.timestamp),
+    annotation.type,
+    annotation.question,
+    annotation.requirements,
+    String(annotation.feedbackDuration),
+    annotation.range ? String(annotation.range.start) : '',
+    annotation.range ? String(annotation.range.end) : '',
+    annotation.frameIndex !== undefined ? String(annotation.frameIndex) : '',
+    annotation.frameRate !== undefined ? String(annotation.frameRate) : '',
+    annotation.answer ?? '',
+    // Follow-up turns, regions and custom fields do not fit a flat row, so they travel as JSON cells
+    annotation.followUps ? JSON.stringify(annotation.followUps) : '',
+    annotation.regions ? JSON.stringify(annotation.regions) : '',
+    annotation.fields ? JSON.stringify(annotation.fields) : '',
+  ]);
+  return serializeDelimited([[...COLUMNS], ...rows], delimiter);
+}
+
+function toNumber(value: string | undefined): unknown {
+  if (value === undefined || value.trim() === '') return undefined;
+  const number = Number(value);
+  // Keep the raw text so validation can report what was wrong
+  return Number.isNaN(number) ? value : number;
+}
+
+// Invalid JSON is passed through as text so validation reports it for the row
+function parseJsonCell(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+// Reads a table written by buildAnnotationTable (or edited in a spreadsheet).
+// Columns are matched by header name; "time" is only used when "timestamp" is empty.
+export function parseAnnotationTable(
+  text: string,
+  delimiter: TableDelimiter,
+  context: ImportContext
+): ImportResult {
+  const [header, ...rows] = parseDelimited(text, delimiter);
+  if (!header) {
+    throw new Error('File is empty.');
+  }
+  const columnIndex = new Map(header.map((name, index) => [name.trim(), index]));
+  const missing = COLUMNS.filter((name) => !OPTIONAL_COLUMNS.includes(name) && !columnIndex.has(name));
+  if (!columnIndex.has('timestamp') && !columnIndex.has('time')) {
+    missing.unshift('timestamp');
+  }
+  if (missing.length > 0) {
+    throw new Error(`Missing column${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}.`);
+  }
+
+  const cell = (row: string[], name: string) => {
+    const index = columnIndex.get(name);
+    const value = index === undefined ? undefined : row[index];
+    return value === undefined ? undefined : unguardFormula(value);
+  };
+
+  const entries = rows.map((row) => {
+    let timestamp = toNumber(cell(row, 'timestamp'));
+    const time = cell(row, 'time');
+    if (timestamp === undefined && time) {
+      const parsed = parseTime(time);
+      timestamp = Number.isNaN(parsed) ? time : parsed;
+    }
+    const rangeStart = toNumber(cell(row, 'rangeStart'));
+    const rangeEnd = toNumber(cell(row, 'rangeEnd'));
+    const frameIndex = toNumber(cell(row, 'frameIndex'));
+    const frameRate = toNumber(cell(row, 'frameRate'));
+    const answer = cell(row, 'answer');
+    const followUps = cell(row, 'followUps')?.trim();
+    const regions = cell(row, 'regions')?.trim();
+    const fields = cell(row, 'fields')?.trim();
+    return {
+      timestamp,
+      type: cell(row, 'type')?.trim(),
+      question: cell(row, 'question'),
+      requirements: cell(row, 'requirements') ?? '',
+      feedbackDuration: toNumber(cell(row, 'feedbackDuration')),
+      ...(rangeStart !== undefined || rangeEnd !== undefined ? { range: { start: rangeStart, end: rangeEnd } } : {}),
+      ...(frameIndex !== undefined || frameRate !== undefined ? { frameIndex, frameRate } : {}),
+      ...(answer ? { answer } : {}),
+      ...(followUps ? { followUps: parseJsonCell(followUps) } : {}),
+      ...(regions ? { regions: parseJsonCell(regions) } : {}),
+      ...(fields ? { fields: parseJsonCell(fields) } : {}),
+    };
+  });
+  // Row numbers as a spreadsheet shows them, counting the header as row 1
+  return validateAnnotations(entries, context, 2);
+}
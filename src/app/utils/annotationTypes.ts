@@ -0,0 +1,137 @@
+// Optional annotation fields a type can make mandatory
+export type RequiredField = 'requirements' | 'answer' | 'range' | 'regions';
+
+// How a type is rendered in the JSONL export: 'video' attaches the clip as a
+// video part, 'text' describes the window in the prompt
+export type JsonlTemplate = 'video' | 'text';
+
+export interface AnnotationTypeConfig {
+  // Stored in Annotation.type, so it must be unique within a project
+  name: string;
+  // CSS hex color used for badges and timeline markers
+  color: string;
+  requiredFields: RequiredField[];
+  defaultFeedbackDuration: number;
+  template: JsonlTemplate;
+  // Grab a still frame when an annotation of this type is created
+  captureFrame: boolean;
+}
+
+export const REQUIRED_FIELD_OPTIONS: { field: RequiredField; label: string }[] = [
+  { field: 'requirements', label: 'Requirements' },
+  { field: 'answer', label: 'Reference answer' },
+  { field: 'range', label: 'Segment' },
+  { field: 'regions', label: 'Regions' },
+];
+
+export const DEFAULT_ANNOTATION_TYPES: AnnotationTypeConfig[] = [
+  {
+    name: 'VLM',
+    color: '#9333ea',
+    requiredFields: [],
+    defaultFeedbackDuration: 6,
+    template: 'video',
+    captureFrame: true,
+  },
+  {
+    name: 'LLM',
+    color: '#2563eb',
+    requiredFields: [],
+    defaultFeedbackDuration: 6,
+    template: 'text',
+    captureFrame: false,
+  },
+];
+
+// Used for annotations whose type is no longer configured
+const UNKNOWN_TYPE: Omit<AnnotationTypeConfig, 'name'> = {
+  color: '#6b7280',
+  requiredFields: [],
+  defaultFeedbackDuration: 6,
+  template: 'text',
+  captureFrame: false,
+};
+
+export function getTypeConfig(types: AnnotationTypeConfig[], name: string): AnnotationTypeConfig {
+  return types.find((type) => type.name === name) ?? { name, ...UNKNOWN_TYPE };
+}
+
+// What an annotation (or the form creating one) has filled in
+export interface RequiredFieldState {
+  requirements: string;
+  answer?: string;
+  hasRange: boolean;
+  regionCount: number;
+}
+
+export function getMissingFields(state: RequiredFieldState, type: AnnotationTypeConfig): RequiredField[] {
+  return type.requiredFields.filter((field) => {
+    switch (field) {
+      case 'requirements':
+        return !state.requirements.trim();
+      case 'answer':
+        return !state.answer?.trim();
+      case 'range':
+        return !state.hasRange;
+      case 'regions':
+        return state.regionCount === 0;
+    }
+  });
+}
+
+export function describeFields(fields: RequiredField[]): string {
+  return fields
+    .map((field) => REQUIRED_FIELD_OPTIONS.find((option) => option.field === field)?.label ?? field)
+    .join(', ');
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Returns the problems with a type list, empty when it can be used
+export function validateTypeConfigs(types: AnnotationTypeConfig[]): string[] {
+  const errors: string[] = [];
+  if (types.length === 0) {
+    errors.push('At least one annotation type is needed.');
+  }
+  const seen = new Set<string>();
+  types.forEach((type, index) => {
+    const name = type.name.trim();
+    if (!name) {
+      errors.push(`Type ${index + 1} has no name.`);
+    } else if (seen.has(name)) {
+      errors.push(`Type name "${name}" is used twice.`);
+    }
+    seen.add(name);
+    if (!HEX_COLOR.test(type.color)) {
+      errors.push(`"${name}": color must be a hex value such as #9333ea.`);
+    }
+    if (!Number.isFinite(type.defaultFeedbackDuration) || type.defaultFeedbackDuration < 0) {
+      errors.push(`"${name}": default feedback duration must be a non-negative number.`);
+    }
+  });
+  return errors;
+}
+
+// Reads the annotationTypes array of an export file. Returns null when it is
+// missing or malformed, in which case the project keeps its own types.
+export function parseTypeConfigs(raw: unknown): AnnotationTypeConfig[] | null {
+  if (!Array.isArray(raw)) return null;
+  const fields = REQUIRED_FIELD_OPTIONS.map((option) => option.field);
+  const types: AnnotationTypeConfig[] = [];
+  for (const entry of raw) {
+    if (typeof entry !== 'object' || entry === null) return null;
+    const item = entry as Record<string, unknown>;
+    if (typeof item.name !== 'string' || typeof item.color !== 'string') return null;
+    types.push({
+      name: item.name,
+      color: item.color,
+      requiredFields: Array.isArray(item.requiredFields)
+        ? fields.filter((field) => (item.requiredFields as unknown[]).includes(field))
+        : [],
+      defaultFeedbackDuration: typeof item.defaultFeedbackDuration === 'number' ? item.defaultFeedbackDuration : 6,
+      template: item.template === 'video' ? 'video' : 'text',
+      captureFrame: item.captureFrame === true,
+    });
+  }
+  return validateTypeConfigs(types).length === 0 ? types : null;
+}
@@ -0,0 +1,62 @@
+import type { Annotation, DialogueTurn } from '../components/AnnotationPanel';
+import { timeToFrame } from './frames';
+
+let idCounter = 0;
+
+// Date.now() alone collides when many annotations are created in one tick (e.g. on import)
+export function createAnnotationId(): string {
+  idCounter = (idCounter + 1) % 1000;
+  return `${Date.now()}${idCounter.toString().padStart(3, '0')}`;
+}
+
+// Path of an annotation's captured frame, in the frame store and in ZIP exports
+export function getFrameFile(id: string): string {
+  return `frames/${id}.png`;
+}
+
+// Drops blank follow-ups and an empty answer so exports stay free of placeholder fields
+export function normalizeDialogue(answer: string, followUps: DialogueTurn[]): Pick<Annotation, 'answer' | 'followUps'> {
+  const turns = followUps
+    .filter((turn) => turn.question.trim())
+    .map((turn) => ({ question: turn.question, answer: turn.answer }));
+  return {
+    ...(answer.trim() ? { answer } : {}),
+    ...(turns.length > 0 ? { followUps: turns } : {}),
+  };
+}
+
+// Frame fields for a timestamp; omitted when the frame rate is unknown
+export function getFrameFields(timestamp: number, frameRate: number | null | undefined): Pick<Annotation, 'frameIndex' | 'frameRate'> {
+  return frameRate ? { frameIndex: timeToFrame(timestamp, frameRate), frameRate } : {};
+}
+
+// Moves an annotation to a new time. A marked segment moves along with it
+// (unless that would start it before 0) and the frame index is recomputed.
+export function retimeAnnotation(annotation: Annotation, timestamp: number): Annotation {
+  const delta = timestamp - annotation.timestamp;
+  const range = annotation.range && annotation.range.start + delta >= 0
+    ? { start: annotation.range.start + delta, end: annotation.range.end + delta }
+    : annotation.range;
+  return {
+    ...annotation,
+    timestamp,
+    ...(range ? { range } : {}),
+    ...getFrameFields(timestamp, annotation.frameRate),
+  };
+}
+
+// Moves an annotation and its segment by the same offset, limited so that all
+// of them stay within 0..duration (only 0 bounds them while duration is unknown)
+export function shiftAnnotation(annotation: Annotation, offset: number, duration: number): Annotation {
+  const { timestamp, range } = annotation;
+  let delta = Math.max(offset, -Math.min(timestamp, range?.start ?? timestamp));
+  if (duration > 0 && delta > 0) {
+    delta = Math.min(delta, Math.max(0, duration - Math.max(timestamp, range?.end ?? timestamp)));
+  }
+  return {
+    ...annotation,
+    timestamp: timestamp + delta,
+    ...(range ? { range: { start: range.start + delta, end: range.end + delta } } : {}),
+    ...getFrameFields(timestamp + delta, annotation.frameRate),
+  };
+}
@@ -0,0 +1,76 @@
+import type { Annotation } from '../components/AnnotationPanel';
+import { shiftAnnotation } from './annotations';
+import { AnnotationTypeConfig, getMissingFields, getTypeConfig, RequiredField } from './annotationTypes';
+
+export type TextField = 'question' | 'requirements';
+
+export interface TextReplacement {
+  find: string;
+  replace: string;
+  fields: TextField[];
+  matchCase: boolean;
+}
+
+// Changes applied to every selected annotation at once
+export type BulkEdit =
+  | { kind: 'setType'; type: string }
+  | { kind: 'setFeedbackDuration'; duration: number }
+  | { kind: 'replaceText'; replacement: TextReplacement }
+  | { kind: 'shiftTime'; offset: number };
+
+// The search text is literal; with matchCase off it matches regardless of case
+function toPattern({ find, matchCase }: TextReplacement): RegExp {
+  return new RegExp(find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), matchCase ? 'g' : 'gi');
+}
+
+export function countMatches(annotations: Annotation[], replacement: TextReplacement): number {
+  if (!replacement.find) return 0;
+  const pattern = toPattern(replacement);
+  return annotations.reduce(
+    (total, annotation) =>
+      total + replacement.fields.reduce((sum, field) => sum + (annotation[field].match(pattern)?.length ?? 0), 0),
+    0
+  );
+}
+
+// setType leaves an annotation alone when it lacks fields the new type requires;
+// returns those fields, empty when the edit can be applied
+export function getBulkEditMissingFields(
+  annotation: Annotation,
+  edit: BulkEdit,
+  types: AnnotationTypeConfig[]
+): RequiredField[] {
+  if (edit.kind !== 'setType') return [];
+  return getMissingFields(
+    {
+      requirements: annotation.requirements,
+      answer: annotation.answer,
+      hasRange: Boolean(annotation.range),
+      regionCount: annotation.regions?.length ?? 0,
+    },
+    getTypeConfig(types, edit.type)
+  );
+}
+
+// duration bounds shifted annotations and segments when known (> 0); they never go below 0
+export function applyBulkEdit(annotation: Annotation, edit: BulkEdit, duration: number): Annotation {
+  switch (edit.kind) {
+    case 'setType':
+      return { ...annotation, type: edit.type };
+    case 'setFeedbackDuration':
+      return { ...annotation, feedbackDuration: edit.duration };
+    case 'replaceText': {
+      const { replacement } = edit;
+      if (!replacement.find) return annotation;
+      const pattern = toPattern(replacement);
+      const updated = { ...annotation };
+      // A function replacement keeps "$&" and similar in the new text literal
+      replacement.fields.forEach((field) => {
+        updated[field] = annotation[field].replace(pattern, () => replacement.replace);
+      });
+      return updated;
+    }
+    case 'shiftTime':
+      return shiftAnnotation(annotation, edit.offset, duration);
+  }
+}
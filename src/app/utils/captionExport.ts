@@ -0,0 +1,54 @@
+import type { Annotation } from '../components/AnnotationPanel';
+
+export interface AnnotationCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Cues must end after they start; point annotations still get a visible cue
+const MIN_CUE_DURATION = 0.5;
+
+export function buildAnnotationCues(annotations: Annotation[]): AnnotationCue[] {
+  return [...annotations]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((annotation) => ({
+      start: annotation.timestamp,
+      end: annotation.timestamp + Math.max(annotation.feedbackDuration, MIN_CUE_DURATION),
+      // A blank line would terminate the cue early
+      text: `[${annotation.type}] ${annotation.question}`.replace(/\n\s*\n/g, '\n').trim(),
+    }));
+}
+
+export function formatCueTime(time: number, separator: '.' | ','): string {
+  const totalMs = Math.round(time * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const seconds = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms, 3)}`;
+}
+
+function escapeVttText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function toWebVtt(cues: AnnotationCue[]): string {
+  const blocks = cues.map(
+    (cue, index) =>
+      `${index + 1}\n${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${escapeVttText(cue.text)}`
+  );
+  return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+}
+
+export function toSrt(cues: AnnotationCue[]): string {
+  return (
+    cues
+      .map(
+        (cue, index) =>
+          `${index + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.text}`
+      )
+      .join('\n\n') + '\n'
+  );
+}
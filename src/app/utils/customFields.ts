@@ -0,0 +1,177 @@
+export type CustomFieldKind = 'text' | 'number' | 'select' | 'multiSelect' | 'boolean' | 'tags';
+
+export interface CustomFieldDefinition {
+  // Property name in Annotation.fields and in exports; fixed once created
+  key: string;
+  label: string;
+  kind: CustomFieldKind;
+  required: boolean;
+  // Choices for select and multiSelect fields
+  options?: string[];
+}
+
+export type CustomFieldValue = string | number | boolean | string[];
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export const FIELD_KIND_OPTIONS: { kind: CustomFieldKind; label: string }[] = [
+  { kind: 'text', label: 'Text' },
+  { kind: 'number', label: 'Number' },
+  { kind: 'select', label: 'Select' },
+  { kind: 'multiSelect', label: 'Multi-select' },
+  { kind: 'boolean', label: 'Yes / No' },
+  { kind: 'tags', label: 'Tags' },
+];
+
+// Keys become object properties and react-hook-form paths, where dots would nest
+const FIELD_KEY = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export const hasOptions = (kind: CustomFieldKind) => kind === 'select' || kind === 'multiSelect';
+
+// Values the form starts from; numbers start empty rather than at 0
+export function getFieldFormValues(
+  schema: CustomFieldDefinition[],
+  values: CustomFieldValues = {}
+): CustomFieldValues {
+  const formValues: CustomFieldValues = {};
+  schema.forEach((field) => {
+    const value = values[field.key];
+    switch (field.kind) {
+      case 'multiSelect':
+      case 'tags':
+        formValues[field.key] = Array.isArray(value) ? value : [];
+        break;
+      case 'boolean':
+        formValues[field.key] = value === true;
+        break;
+      case 'number':
+        formValues[field.key] = typeof value === 'number' ? String(value) : '';
+        break;
+      default:
+        formValues[field.key] = typeof value === 'string' ? value : '';
+    }
+  });
+  return formValues;
+}
+
+function isEmpty(value: CustomFieldValue | undefined): boolean {
+  return value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+// Converts form values to what is stored on the annotation. Empty values are
+// dropped so exports only carry what was filled in; booleans are always kept.
+export function toFieldValues(schema: CustomFieldDefinition[], formValues: CustomFieldValues): CustomFieldValues | undefined {
+  const values: CustomFieldValues = {};
+  schema.forEach((field) => {
+    const value = formValues[field.key];
+    if (field.kind === 'boolean') {
+      values[field.key] = value === true;
+    } else if (!isEmpty(value)) {
+      values[field.key] = field.kind === 'number' ? Number(value) : value;
+    }
+  });
+  return Object.keys(values).length > 0 ? values : undefined;
+}
+
+// Checks a stored or form value; returns an error message or null
+export function validateFieldValue(field: CustomFieldDefinition, value: CustomFieldValue | undefined): string | null {
+  if (isEmpty(value)) {
+    return field.required && field.kind !== 'boolean' ? `${field.label} is required` : null;
+  }
+  switch (field.kind) {
+    case 'text':
+      return typeof value === 'string' ? null : `${field.label} must be text`;
+    case 'number':
+      return Number.isFinite(Number(value)) && typeof value !== 'boolean' && !Array.isArray(value)
+        ? null
+        : `${field.label} must be a number`;
+    case 'select':
+      return typeof value === 'string' && (field.options ?? []).includes(value)
+        ? null
+        : `${field.label} must be one of ${(field.options ?? []).join(', ')}`;
+    case 'multiSelect':
+      return Array.isArray(value) && value.every((item) => (field.options ?? []).includes(item))
+        ? null
+        : `${field.label} must only contain ${(field.options ?? []).join(', ')}`;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${field.label} must be true or false`;
+    case 'tags':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string')
+        ? null
+        : `${field.label} must be a list of tags`;
+  }
+}
+
+// Fits a stored value to a field whose options may have changed: the value
+// itself when it still validates, a multi-select without the options that were
+// removed, or undefined when the value has to be dropped
+export function conformFieldValue(field: CustomFieldDefinition, value: CustomFieldValue): CustomFieldValue | undefined {
+  const fitted =
+    field.kind === 'multiSelect' && Array.isArray(value)
+      ? value.filter((item) => (field.options ?? []).includes(item))
+      : value;
+  if (isEmpty(fitted) || validateFieldValue(field, fitted) !== null) return undefined;
+  return Array.isArray(value) && Array.isArray(fitted) && fitted.length === value.length ? value : fitted;
+}
+
+// Applies a changed schema to an annotation's values, dropping values of removed
+// fields and values that no longer fit. Returns the same object when nothing changes.
+export function conformFieldValues(
+  schema: CustomFieldDefinition[],
+  values: CustomFieldValues | undefined
+): CustomFieldValues | undefined {
+  if (!values) return values;
+  const kept: CustomFieldValues = {};
+  let changed = false;
+  Object.entries(values).forEach(([key, value]) => {
+    const field = schema.find((f) => f.key === key);
+    const fitted = field ? conformFieldValue(field, value) : undefined;
+    if (fitted !== undefined) kept[key] = fitted;
+    if (fitted !== value) changed = true;
+  });
+  if (!changed) return values;
+  return Object.keys(kept).length > 0 ? kept : undefined;
+}
+
+// Returns the problems with a field schema, empty when it can be used
+export function validateFieldSchema(schema: CustomFieldDefinition[]): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  schema.forEach((field, index) => {
+    if (!FIELD_KEY.test(field.key)) {
+      errors.push(`Field ${index + 1}: key must start with a letter and use only letters, digits and _.`);
+    } else if (seen.has(field.key)) {
+      errors.push(`Field key "${field.key}" is used twice.`);
+    }
+    seen.add(field.key);
+    if (!field.label.trim()) {
+      errors.push(`Field "${field.key}" has no label.`);
+    }
+    if (hasOptions(field.kind) && !(field.options ?? []).length) {
+      errors.push(`Field "${field.key}" needs at least one option.`);
+    }
+  });
+  return errors;
+}
+
+// Reads the fieldSchema array of an export file; null when missing or malformed
+export function parseFieldSchema(raw: unknown): CustomFieldDefinition[] | null {
+  if (!Array.isArray(raw)) return null;
+  const kinds = FIELD_KIND_OPTIONS.map((option) => option.kind);
+  const schema: CustomFieldDefinition[] = [];
+  for (const entry of raw) {
+    if (typeof entry !== 'object' || entry === null) return null;
+    const item = entry as Record<string, unknown>;
+    if (typeof item.key !== 'string' || !kinds.includes(item.kind as CustomFieldKind)) return null;
+    const kind = item.kind as CustomFieldKind;
+    schema.push({
+      key: item.key,
+      label: typeof item.label === 'string' ? item.label : item.key,
+      kind,
+      required: item.required === true,
+      ...(hasOptions(kind) && Array.isArray(item.options)
+        ? { options: item.options.filter((option): option is string => typeof option === 'string') }
+        : {}),
+    });
+  }
+  return validateFieldSchema(schema).length === 0 ? schema : null;
+}
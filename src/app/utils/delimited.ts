@@ -0,0 +1,76 @@
+// Minimal RFC 4180 reader/writer shared by CSV and TSV. Fields containing the
+// delimiter, quotes or line breaks are quoted, so multiline text round-trips.
+
+// Spreadsheets run a cell starting with =, +, -, @, a tab or a CR as a formula.
+// Text that already starts with "'" before one of them is guarded as well, so
+// the prefix can be removed again unambiguously.
+const FORMULA_PREFIX = /^'*[=+\-@\t\r]/;
+const NUMBER = /^-?\d+(?:\.\d+)?(?:e[+-]?\d+)?$/i;
+
+// Text that would be run as a formula is prefixed with "'"; negative numbers stay numbers
+function guardFormula(field: string): string {
+  return FORMULA_PREFIX.test(field) && !NUMBER.test(field) ? `'${field}` : field;
+}
+
+// Reverses guardFormula for cells read back from a file
+export function unguardFormula(field: string): string {
+  return field.startsWith("'") && FORMULA_PREFIX.test(field) ? field.slice(1) : field;
+}
+
+export function serializeDelimited(rows: string[][], delimiter: string): string {
+  const escapeField = (value: string) => {
+    const field = guardFormula(value);
+    return field.includes(delimiter) || /["\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+  };
+  return rows.map((row) => row.map(escapeField).join(delimiter)).join('\r\n') + '\r\n';
+}
+
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+  };
+  const endRow = () => {
+    endField();
+    rows.push(row);
+    row = [];
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  // Blank lines (e.g. trailing ones) carry no data
+  return rows.filter((cells) => cells.some((cell) => cell !== ''));
+}
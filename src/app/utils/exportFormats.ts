@@ -0,0 +1,18 @@
+export type ExportFormat = 'json' | 'jsonl' | 'csv' | 'tsv' | 'vtt' | 'srt' | 'zip';
+
+export interface ExportFormatOption {
+  format: ExportFormat;
+  label: string;
+  description: string;
+}
+
+// Listed in the export menu; 'json' is the GENERATE JSON button itself
+export const EXPORT_FORMAT_OPTIONS: ExportFormatOption[] = [
+  { format: 'json', label: 'JSON', description: 'Full annotation export' },
+  { format: 'jsonl', label: 'JSONL', description: 'Instruction-tuning conversations' },
+  { format: 'csv', label: 'CSV', description: 'Spreadsheet review (comma-separated)' },
+  { format: 'tsv', label: 'TSV', description: 'Spreadsheet review (tab-separated)' },
+  { format: 'vtt', label: 'WebVTT', description: 'Caption track of the questions' },
+  { format: 'srt', label: 'SRT', description: 'Caption track of the questions' },
+  { format: 'zip', label: 'ZIP', description: 'JSON plus captured frames' },
+];
@@ -0,0 +1,111 @@
+import type { Annotation } from '../components/AnnotationPanel';
+import { AnnotationTypeConfig, getTypeConfig, JsonlTemplate } from './annotationTypes';
+
+export interface ChatContentPart {
+  type: 'text' | 'video';
+  text?: string;
+  video?: string;
+  video_start?: number;
+  video_end?: number;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+export interface InstructionRecord {
+  id: string;
+  type: string;
+  video: string;
+  window: { start: number; end: number };
+  messages: ChatMessage[];
+  // Custom field values, passed through as record metadata
+  fields?: Annotation['fields'];
+}
+
+interface TemplateContext {
+  video: string;
+  start: number;
+  end: number;
+}
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+function buildSystemPrompt(base: string, requirements: string): string {
+  const trimmed = requirements.trim();
+  return trimmed ? `${base}\n\nAnswer requirements:\n${trimmed}` : base;
+}
+
+// Each annotation type picks one template. 'video' records attach the clip as
+// a video part of the user turn; 'text' records carry the window as plain
+// context for pipelines that feed a transcript instead of frames.
+const TEMPLATES: Record<JsonlTemplate, (annotation: Annotation, context: TemplateContext) => ChatMessage[]> = {
+  video: (annotation, { video, start, end }) => [
+    {
+      role: 'system',
+      content: buildSystemPrompt(
+        'You are a vision-language assistant. Answer using only what is visible and audible in the provided video clip.',
+        annotation.requirements
+      ),
+    },
+    {
+      role: 'user',
+      content: [
+        { type: 'video', video, video_start: start, video_end: end },
+        { type: 'text', text: annotation.question },
+      ],
+    },
+  ],
+  text: (annotation, { video, start, end }) => [
+    {
+      role: 'system',
+      content: buildSystemPrompt(
+        'You are a helpful assistant answering questions about a video.',
+        annotation.requirements
+      ),
+    },
+    {
+      role: 'user',
+      content: `[Video: ${video}, ${start}s-${end}s]\n${annotation.question}`,
+    },
+  ],
+};
+
+// Reference answer and follow-ups after the templated opening; an unanswered turn adds only its question
+function buildDialogue(annotation: Annotation): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  if (annotation.answer) {
+    messages.push({ role: 'assistant', content: annotation.answer });
+  }
+  annotation.followUps?.forEach((turn) => {
+    messages.push({ role: 'user', content: turn.question });
+    if (turn.answer) {
+      messages.push({ role: 'assistant', content: turn.answer });
+    }
+  });
+  return messages;
+}
+
+// The window is the marked segment when there is one, otherwise the feedback
+// window that starts at the annotation timestamp
+export function toInstructionRecord(annotation: Annotation, video: string, types: AnnotationTypeConfig[]): InstructionRecord {
+  const start = round3(annotation.range ? annotation.range.start : annotation.timestamp);
+  const end = round3(annotation.range ? annotation.range.end : annotation.timestamp + annotation.feedbackDuration);
+  return {
+    id: annotation.id,
+    type: annotation.type,
+    video,
+    window: { start, end },
+    messages: [
+      ...TEMPLATES[getTypeConfig(types, annotation.type).template](annotation, { video, start, end }),
+      ...buildDialogue(annotation),
+    ],
+    ...(annotation.fields ? { fields: annotation.fields } : {}),
+  };
+}
+
+// One JSON object per line, in annotation order
+export function buildInstructionJsonl(annotations: Annotation[], video: string, types: AnnotationTypeConfig[]): string {
+  return annotations.map((annotation) => JSON.stringify(toInstructionRecord(annotation, video, types))).join('\n') + '\n';
+}
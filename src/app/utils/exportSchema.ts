@@ -0,0 +1,98 @@
+import type { Annotation } from '../components/AnnotationPanel';
+import { version as toolVersion } from '../../../package.json';
+import type { AnnotationTypeConfig } from './annotationTypes';
+import type { CustomFieldDefinition } from './customFields';
+
+// Bump when the exported shape changes and register a migration from the
+// previous version below. Files without schemaVersion are treated as version 0.
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export type ExportedAnnotation = Omit<Annotation, 'id'>;
+
+export interface AnnotationExport {
+  schemaVersion: number;
+  toolVersion: string;
+  createdAt: string | null;
+  videoUrl: string;
+  videoFileName?: string;
+  videoDuration: number | null;
+  totalAnnotations: number;
+  // Type configuration of the project; files without it use VLM and LLM
+  annotationTypes?: AnnotationTypeConfig[];
+  // Custom fields of the project; values are in each annotation's "fields"
+  fieldSchema?: CustomFieldDefinition[];
+  annotations: ExportedAnnotation[];
+}
+
+interface ExportSource {
+  videoUrl: string;
+  videoFileName?: string;
+  videoDuration?: number;
+  annotationTypes: AnnotationTypeConfig[];
+  fieldSchema: CustomFieldDefinition[];
+  annotations: Annotation[];
+}
+
+export function buildAnnotationExport({
+  videoUrl,
+  videoFileName,
+  videoDuration,
+  annotationTypes,
+  fieldSchema,
+  annotations,
+}: ExportSource): AnnotationExport {
+  return {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    toolVersion,
+    createdAt: new Date().toISOString(),
+    videoUrl,
+    ...(videoFileName ? { videoFileName } : {}),
+    videoDuration: videoDuration && Number.isFinite(videoDuration) ? videoDuration : null,
+    totalAnnotations: annotations.length,
+    annotationTypes,
+    fieldSchema,
+    annotations: annotations.map(({ id, ...rest }) => rest),
+  };
+}
+
+type ExportDocument = Record<string, unknown>;
+
+// migrations[n] upgrades a version n document to version n + 1
+const migrations: Record<number, (doc: ExportDocument) => ExportDocument> = {
+  // 0: the original unversioned { videoUrl, totalAnnotations, annotations }
+  0: (doc) => ({
+    ...doc,
+    schemaVersion: 1,
+    toolVersion: typeof doc.toolVersion === 'string' ? doc.toolVersion : 'unknown',
+    createdAt: null,
+    videoDuration: null,
+  }),
+};
+
+export function getSchemaVersion(doc: ExportDocument): number {
+  return doc.schemaVersion === undefined ? 0 : Number(doc.schemaVersion);
+}
+
+// Upgrades a parsed export file of any known version to EXPORT_SCHEMA_VERSION.
+// Entries inside annotations are still unvalidated afterwards.
+export function migrateExport(doc: ExportDocument): ExportDocument {
+  let version = getSchemaVersion(doc);
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error(`Unknown schemaVersion "${String(doc.schemaVersion)}".`);
+  }
+  if (version > EXPORT_SCHEMA_VERSION) {
+    throw new Error(
+      `File uses schema version ${version}, but this tool only supports up to ${EXPORT_SCHEMA_VERSION}. Please update the annotator.`
+    );
+  }
+  let migrated = doc;
+  while (version < EXPORT_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration from schema version ${version}.`);
+    }
+    migrated = migrate(migrated);
+    version += 1;
+  }
+  return migrated;
+}
@@ -0,0 +1,57 @@
+export class FrameCaptureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FrameCaptureError';
+  }
+}
+
+export interface CapturedFrame {
+  // Full-resolution PNG
+  blob: Blob;
+  width: number;
+  height: number;
+  // Small JPEG data URL for the annotation card
+  thumbnail: string;
+}
+
+const THUMBNAIL_WIDTH = 160;
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new FrameCaptureError('无法编码截取的画面'))), 'image/png');
+  });
+}
+
+// Draws the frame currently shown by the video onto a canvas. Reading the
+// pixels back throws a SecurityError when the video came from another origin
+// without CORS headers (the canvas is "tainted"); that is reported as a
+// FrameCaptureError with a hint instead of failing silently.
+export async function captureVideoFrame(video: HTMLVideoElement): Promise<CapturedFrame> {
+  if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) {
+    throw new FrameCaptureError('当前画面尚未加载，无法截取');
+  }
+  const width = video.videoWidth;
+  const height = video.videoHeight;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')?.drawImage(video, 0, 0, width, height);
+
+  const thumbCanvas = document.createElement('canvas');
+  thumbCanvas.width = THUMBNAIL_WIDTH;
+  thumbCanvas.height = Math.round((height / width) * THUMBNAIL_WIDTH);
+  thumbCanvas.getContext('2d')?.drawImage(canvas, 0, 0, thumbCanvas.width, thumbCanvas.height);
+
+  try {
+    const thumbnail = thumbCanvas.toDataURL('image/jpeg', 0.7);
+    const blob = await canvasToBlob(canvas);
+    return { blob, width, height, thumbnail };
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'SecurityError') {
+      throw new FrameCaptureError(
+        '视频服务器未允许跨域访问 (CORS)，浏览器禁止读取画面，无法截取帧。请下载视频后以本地文件上传。'
+      );
+    }
+    throw error;
+  }
+}
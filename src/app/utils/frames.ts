@@ -0,0 +1,51 @@
+// Used for frame stepping until a rate is detected or entered
+export const DEFAULT_FRAME_RATE = 30;
+
+const COMMON_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 48, 50, 59.94, 60, 120];
+
+// Snaps a measured rate to the nearest common one when it is within 1%
+export function snapFrameRate(rate: number): number {
+  const nearest = COMMON_FRAME_RATES.reduce((best, candidate) =>
+    Math.abs(candidate - rate) < Math.abs(best - rate) ? candidate : best
+  );
+  return Math.abs(nearest - rate) / nearest < 0.01 ? nearest : Math.round(rate * 100) / 100;
+}
+
+// The epsilon keeps times that sit exactly on a frame boundary from rounding down
+export function timeToFrame(time: number, frameRate: number): number {
+  return Math.floor(time * frameRate + 1e-6);
+}
+
+// Middle of the frame, so seeking lands on it despite float rounding
+export function frameToTime(frame: number, frameRate: number): number {
+  return (Math.max(frame, 0) + 0.5) / frameRate;
+}
+
+const ESTIMATE_SAMPLE_COUNT = 30;
+
+// Estimates the frame rate from requestVideoFrameCallback metadata. Only
+// consecutive presented frames are sampled, so dropped frames and seeks are ignored.
+export function createFrameRateEstimator() {
+  const samples: number[] = [];
+  let last: { presentedFrames: number; mediaTime: number } | null = null;
+
+  return {
+    add(presentedFrames: number, mediaTime: number): number | null {
+      if (last && presentedFrames - last.presentedFrames === 1) {
+        const delta = mediaTime - last.mediaTime;
+        if (delta > 0 && delta < 1) {
+          samples.push(delta);
+          if (samples.length > ESTIMATE_SAMPLE_COUNT) samples.shift();
+        }
+      }
+      last = { presentedFrames, mediaTime };
+      if (samples.length < ESTIMATE_SAMPLE_COUNT) return null;
+      const median = [...samples].sort((a, b) => a - b)[Math.floor(samples.length / 2)];
+      return snapFrameRate(1 / median);
+    },
+    reset() {
+      samples.length = 0;
+      last = null;
+    },
+  };
+}
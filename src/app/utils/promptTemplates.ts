@@ -0,0 +1,119 @@
+import { createAnnotationId } from './annotations';
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  // Either text may be empty; inserting a template only fills what it defines
+  question: string;
+  requirements: string;
+}
+
+export interface PromptLibrary {
+  templates: PromptTemplate[];
+  // Annotation type name -> id of the template filled in when an annotation of that type starts
+  typeDefaults: Record<string, string>;
+}
+
+export interface PlaceholderValues {
+  timestamp: string;
+  subtitle: string;
+  videoName: string;
+}
+
+export const PLACEHOLDERS: { token: keyof PlaceholderValues; description: string }[] = [
+  { token: 'timestamp', description: 'Current playback time' },
+  { token: 'subtitle', description: 'Subtitle line shown at the current time' },
+  { token: 'videoName', description: 'Video file name or URL' },
+];
+
+export const DEFAULT_PROMPT_LIBRARY: PromptLibrary = {
+  templates: [
+    {
+      id: 'describe-scene',
+      name: 'Describe the scene',
+      question: 'What is happening in the video at {timestamp}?',
+      requirements: 'Answer in one sentence and mention the colors of the main objects.',
+    },
+    {
+      id: 'subtitle-context',
+      name: 'Explain the subtitle',
+      question: 'The speaker says "{subtitle}". What are they referring to?',
+      requirements: 'Answer using only what has been said so far.',
+    },
+  ],
+  typeDefaults: {
+    VLM: 'describe-scene',
+    LLM: 'subtitle-context',
+  },
+};
+
+const STORAGE_KEY = 'open-video-annotator:prompt-templates';
+
+export function createTemplateId(): string {
+  return `tpl-${createAnnotationId()}`;
+}
+
+// Unknown placeholders are left as typed so a typo stays visible
+export function fillPlaceholders(text: string, values: PlaceholderValues): string {
+  return text.replace(/\{(\w+)\}/g, (match, token: string) =>
+    token in values ? values[token as keyof PlaceholderValues] : match
+  );
+}
+
+export function getTypeDefaultTemplate(library: PromptLibrary, typeName: string): PromptTemplate | undefined {
+  const id = library.typeDefaults[typeName];
+  return id ? library.templates.find((template) => template.id === id) : undefined;
+}
+
+// Accepts the stored library and files written by serializePromptLibrary.
+// Throws with a readable message when the content is not a template library.
+export function parsePromptLibrary(raw: unknown): PromptLibrary {
+  if (typeof raw !== 'object' || raw === null || !Array.isArray((raw as { templates?: unknown }).templates)) {
+    throw new Error('Expected an object with a "templates" array.');
+  }
+  const source = raw as { templates: unknown[]; typeDefaults?: unknown };
+  const templates: PromptTemplate[] = source.templates.map((entry, index) => {
+    const item = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+    if (typeof item.name !== 'string' || !item.name.trim()) {
+      throw new Error(`Template ${index + 1}: "name" must be a non-empty string.`);
+    }
+    if (item.question !== undefined && typeof item.question !== 'string') {
+      throw new Error(`Template ${index + 1}: "question" must be a string.`);
+    }
+    if (item.requirements !== undefined && typeof item.requirements !== 'string') {
+      throw new Error(`Template ${index + 1}: "requirements" must be a string.`);
+    }
+    return {
+      id: typeof item.id === 'string' && item.id ? item.id : createTemplateId(),
+      name: item.name.trim(),
+      question: (item.question as string | undefined) ?? '',
+      requirements: (item.requirements as string | undefined) ?? '',
+    };
+  });
+  const ids = new Set(templates.map((template) => template.id));
+  const typeDefaults: Record<string, string> = {};
+  if (typeof source.typeDefaults === 'object' && source.typeDefaults !== null) {
+    Object.entries(source.typeDefaults).forEach(([typeName, id]) => {
+      if (typeof id === 'string' && ids.has(id)) typeDefaults[typeName] = id;
+    });
+  }
+  return { templates, typeDefaults };
+}
+
+export function serializePromptLibrary(library: PromptLibrary): string {
+  return JSON.stringify({ version: 1, ...library }, null, 2);
+}
+
+export function loadPromptLibrary(): PromptLibrary {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return DEFAULT_PROMPT_LIBRARY;
+  try {
+    return parsePromptLibrary(JSON.parse(stored));
+  } catch {
+    return DEFAULT_PROMPT_LIBRARY;
+  }
+}
+
+export function savePromptLibrary(library: PromptLibrary) {
+  localStorage.setItem(STORAGE_KEY, serializePromptLibrary(library));
+}
@@ -0,0 +1,183 @@
+import type { Annotation } from '../components/AnnotationPanel';
+import type { AnnotationTypeConfig } from './annotationTypes';
+import type { CustomFieldDefinition } from './customFields';
+import type { UndoHistory } from '../hooks/useUndoableState';
+
+const DB_NAME = 'open-video-annotator';
+const DB_VERSION = 2;
+const SESSION_STORE = 'sessions';
+// Full-resolution frames captured for annotations, keyed by Annotation.frame.file.
+// Shared by all sessions; see pruneFrames for when they are deleted.
+const FRAME_STORE = 'frames';
+
+// What the undo history records: the annotations with the types and fields they use
+export interface ProjectState {
+  annotations: Annotation[];
+  annotationTypes: AnnotationTypeConfig[];
+  fieldSchema: CustomFieldDefinition[];
+}
+
+export interface SessionSnapshot {
+  key: string;
+  videoUrl: string;
+  videoFileName: string;
+  annotations: Annotation[];
+  // Missing in sessions saved before types and fields were configurable
+  annotationTypes?: AnnotationTypeConfig[];
+  fieldSchema?: CustomFieldDefinition[];
+  // Missing in sessions saved before the undo history was kept. Snapshots share
+  // unchanged annotations, which IndexedDB stores once.
+  history?: UndoHistory<ProjectState>;
+  subtitleFileName: string;
+  // VTT text of the loaded subtitle; blob: URLs do not survive a reload
+  subtitleVtt: string;
+  currentTime: number;
+  savedAt: number;
+}
+
+// Another tab still has the database open at an older version, so it cannot be upgraded
+export class SessionStoreBlockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionStoreBlockedError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(FRAME_STORE)) {
+          db.createObjectStore(FRAME_STORE);
+        }
+      };
+      request.onblocked = () => {
+        dbPromise = null;
+        reject(new SessionStoreBlockedError('本应用的其他标签页仍在使用旧版本的数据，自动保存已暂停。请关闭其他标签页后刷新。'));
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Lets a newer version opened in another tab upgrade instead of being blocked by this one
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function runRequest<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest,
+  storeName = SESSION_STORE
+): Promise<T> {
+  return openDatabase().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = action(transaction.objectStore(storeName));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => reject(request.error);
+      })
+  );
+}
+
+export function saveSession(snapshot: SessionSnapshot): Promise<void> {
+  return runRequest<IDBValidKey>('readwrite', (store) => store.put(snapshot)).then(() => undefined);
+}
+
+export function loadSession(key: string): Promise<SessionSnapshot | null> {
+  return runRequest<SessionSnapshot | undefined>('readonly', (store) => store.get(key)).then(
+    (snapshot) => snapshot ?? null
+  );
+}
+
+export function deleteSession(key: string): Promise<void> {
+  return runRequest<undefined>('readwrite', (store) => store.delete(key));
+}
+
+export function saveFrame(file: string, blob: Blob): Promise<void> {
+  return runRequest<IDBValidKey>('readwrite', (store) => store.put(blob, file), FRAME_STORE).then(() => undefined);
+}
+
+export function loadFrame(file: string): Promise<Blob | null> {
+  return runRequest<Blob | undefined>('readonly', (store) => store.get(file), FRAME_STORE).then(
+    (blob) => blob ?? null
+  );
+}
+
+// Deletes stored frames that nothing references any more: neither a saved
+// session (including its undo history) nor isKept. The session saved under currentKey is skipped, as the
+// in-memory state supersedes it. Resolves to the number of frames deleted.
+export function pruneFrames(isKept: (file: string) => boolean, currentKey: string): Promise<number> {
+  return openDatabase().then(
+    (db) =>
+      new Promise<number>((resolve, reject) => {
+        const transaction = db.transaction([SESSION_STORE, FRAME_STORE], 'readwrite');
+        const frames = transaction.objectStore(FRAME_STORE);
+        const referenced = new Set<string>();
+        let deleted = 0;
+        const sessionsRequest = transaction.objectStore(SESSION_STORE).getAll();
+        sessionsRequest.onsuccess = () => {
+          (sessionsRequest.result as SessionSnapshot[]).forEach((snapshot) => {
+            if (snapshot.key === currentKey) return;
+            const entries = [...(snapshot.history?.past ?? []), ...(snapshot.history?.future ?? [])];
+            [snapshot.annotations, ...entries.flatMap((entry) => [entry.before.annotations, entry.after.annotations])]
+              .forEach((annotations) => annotations.forEach((ann) => ann.frame && referenced.add(ann.frame.file)));
+          });
+          const keysRequest = frames.getAllKeys();
+          keysRequest.onsuccess = () => {
+            keysRequest.result.forEach((key) => {
+              if (!referenced.has(String(key)) && !isKept(String(key))) {
+                frames.delete(key);
+                deleted++;
+              }
+            });
+          };
+        };
+        transaction.oncomplete = () => resolve(deleted);
+        transaction.onerror = () => reject(transaction.error);
+      })
+  );
+}
+
+// Bytes read from each end of a local file when fingerprinting it. Hashing a
+// multi-GB video in full would block loading for too long.
+const FINGERPRINT_CHUNK_SIZE = 1024 * 1024;
+
+async function sha256Hex(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Session key for a local file: name, size and a hash of its first and last
+// megabyte, so the same file matches again even though its blob: URL changes.
+export async function getFileSessionKey(file: File): Promise<string> {
+  const head = file.slice(0, FINGERPRINT_CHUNK_SIZE);
+  const tail = file.size > FINGERPRINT_CHUNK_SIZE
+    ? file.slice(Math.max(FINGERPRINT_CHUNK_SIZE, file.size - FINGERPRINT_CHUNK_SIZE))
+    : new Blob();
+  const buffer = await new Blob([head, tail]).arrayBuffer();
+  const hash = await sha256Hex(buffer);
+  return `file:${file.name}:${file.size}:${hash}`;
+}
+
+export function getUrlSessionKey(url: string): string {
+  return `url:${url}`;
+}
@@ -0,0 +1,133 @@
+export type ShortcutAction =
+  | 'togglePlay'
+  | 'seekBack1'
+  | 'seekForward1'
+  | 'seekBack5'
+  | 'seekForward5'
+  | 'frameBack'
+  | 'frameForward'
+  | 'speedDown'
+  | 'speedUp'
+  | 'startAnnotation'
+  | 'doneAnnotation'
+  | 'toggleType'
+  | 'toggleSubtitles'
+  | 'previousAnnotation'
+  | 'nextAnnotation'
+  | 'undo'
+  | 'redo'
+  | 'showHelp';
+
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string }[] = [
+  { action: 'togglePlay', label: '播放 / 暂停' },
+  { action: 'seekBack1', label: '后退 1 秒' },
+  { action: 'seekForward1', label: '前进 1 秒' },
+  { action: 'seekBack5', label: '后退 5 秒' },
+  { action: 'seekForward5', label: '前进 5 秒' },
+  { action: 'frameBack', label: '上一帧' },
+  { action: 'frameForward', label: '下一帧' },
+  { action: 'speedDown', label: '减速' },
+  { action: 'speedUp', label: '加速' },
+  { action: 'startAnnotation', label: 'START 开始标注' },
+  { action: 'doneAnnotation', label: 'DONE 完成标注' },
+  { action: 'toggleType', label: '切换标注类型' },
+  { action: 'toggleSubtitles', label: '显示 / 隐藏字幕' },
+  { action: 'previousAnnotation', label: '跳到上一条标注' },
+  { action: 'nextAnnotation', label: '跳到下一条标注' },
+  { action: 'undo', label: '撤销标注操作' },
+  { action: 'redo', label: '重做标注操作' },
+  { action: 'showHelp', label: '快捷键帮助' },
+];
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  togglePlay: 'Space',
+  seekBack1: 'ArrowLeft',
+  seekForward1: 'ArrowRight',
+  seekBack5: 'Shift+ArrowLeft',
+  seekForward5: 'Shift+ArrowRight',
+  frameBack: ',',
+  frameForward: '.',
+  speedDown: '[',
+  speedUp: ']',
+  startAnnotation: 'Enter',
+  doneAnnotation: 'Ctrl+Enter',
+  toggleType: 't',
+  toggleSubtitles: 'c',
+  previousAnnotation: 'p',
+  nextAnnotation: 'n',
+  undo: 'Ctrl+z',
+  redo: 'Ctrl+Shift+z',
+  showHelp: '?',
+};
+
+const STORAGE_KEY = 'open-video-annotator:shortcuts';
+
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta'];
+
+// Normalizes a key event to a combo string such as "Ctrl+Shift+ArrowLeft".
+// Shift is only spelled out for named keys and letters, since for symbols it
+// is already part of the key ("?" rather than "Shift+/"). Returns null for a
+// bare modifier press.
+export function eventToCombo(event: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+  const key = event.key === ' ' ? 'Space' : event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  const parts: string[] = [];
+  if (event.ctrlKey || event.metaKey) parts.push('Ctrl');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey && (event.key.length > 1 || /^[a-z]$/i.test(event.key))) parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+}
+
+// Left to the text field while typing, so Ctrl+Z undoes the typing rather
+// than an annotation operation
+export const TEXT_FIELD_ACTIONS: ShortcutAction[] = ['undo', 'redo'];
+
+// Inputs that take typed text; sliders, checkboxes and colour pickers do not
+const TEXT_INPUT_TYPES = [
+  'text',
+  'search',
+  'number',
+  'email',
+  'url',
+  'tel',
+  'password',
+  'time',
+  'date',
+  'datetime-local',
+  'month',
+  'week',
+];
+
+// Ctrl/Cmd combos still work while typing (e.g. Ctrl+Enter for DONE); plain
+// keys would otherwise fire while writing a question
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target instanceof HTMLInputElement) return TEXT_INPUT_TYPES.includes(target.type);
+  return target.isContentEditable || ['TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+// Keys that press a focused button or follow a focused link
+const ACTIVATION_COMBOS = ['Space', 'Enter'];
+
+// True when the combo would activate the focused button or link, which then
+// takes precedence over a shortcut bound to the same key
+export function isActivationKey(target: EventTarget | null, combo: string): boolean {
+  if (!(target instanceof Element) || !ACTIVATION_COMBOS.includes(combo)) return false;
+  return target.closest('button, a[href], [role="button"]') !== null;
+}
+
+export function loadShortcuts(): ShortcutBindings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return { ...DEFAULT_SHORTCUTS, ...stored };
+  } catch {
+    return DEFAULT_SHORTCUTS;
+  }
+}
+
+export function saveShortcuts(bindings: ShortcutBindings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+}
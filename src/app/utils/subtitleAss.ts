@@ -0,0 +1,196 @@
+import type { SubtitleCue, SubtitleParseError, SubtitleParseResult } from './subtitles';
+
+// What the WebVTT track can show of an ASS style
+interface AssStyle {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  alignment: number;
+}
+
+// ASS (v4+) and SSA (v4) share the numpad layout once SSA's legacy values are mapped:
+// SSA uses 1-3 bottom, 5-7 top (+4), 9-11 middle (+8)
+const SSA_ALIGNMENT: Record<number, number> = { 1: 1, 2: 2, 3: 3, 5: 7, 6: 8, 7: 9, 9: 4, 10: 5, 11: 6 };
+
+const DEFAULT_STYLE: AssStyle = { bold: false, italic: false, underline: false, alignment: 2 };
+
+// H:MM:SS.cc, with centiseconds
+const ASS_TIME = /^(\d+):(\d{1,2}):(\d{1,2})(?:\.(\d{1,3}))?$/;
+
+function parseAssTime(text: string): number {
+  const match = ASS_TIME.exec(text.trim());
+  if (!match) return NaN;
+  const [, hours, minutes, seconds, fraction = '0'] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(`0.${fraction}`);
+}
+
+// Style flags are -1 (ASS) or 1 (SSA) when set
+const isOn = (value: string | undefined) => value !== undefined && value.trim() !== '0' && value.trim() !== '';
+
+// Splits "a, b, c" into at most `count` fields; the last one (Text) keeps its commas
+function splitFields(value: string, count: number): string[] {
+  const parts = value.split(',');
+  return [...parts.slice(0, count - 1), parts.slice(count - 1).join(',')].map((part, index) =>
+    index < count - 1 ? part.trim() : part
+  );
+}
+
+// \an numpad position to WebVTT cue settings; bottom centre is the default
+function alignmentSettings(alignment: number): string {
+  const settings: string[] = [];
+  if (alignment >= 7) settings.push('line:0');
+  else if (alignment >= 4) settings.push('line:50%');
+  const column = (alignment - 1) % 3;
+  if (column === 0) settings.push('align:start');
+  if (column === 2) settings.push('align:end');
+  return settings.join(' ');
+}
+
+type Tag = 'b' | 'i' | 'u';
+
+const TAGS: Tag[] = ['b', 'i', 'u'];
+
+// Complete override tags only, so \bord, \blur, \be and \iclip are not read as \b or \i
+const OVERRIDE_TAG = /\\(an\d|[biu](?:[01]|\d{3})?|r[^\\}]*)(?=\\|$)/g;
+
+// Converts dialogue text to a WebVTT payload: line breaks are mapped, bold,
+// italic and underline overrides become tags, every other override (colours,
+// fonts, positioning, karaoke) is dropped. Returns the alignment set by \an.
+function convertText(
+  text: string,
+  style: AssStyle,
+  styles: Map<string, AssStyle>
+): { text: string; alignment: number } {
+  const flags = (from: AssStyle): Record<Tag, boolean> => ({ b: from.bold, i: from.italic, u: from.underline });
+  let desired = flags(style);
+  const open: Tag[] = [];
+  let alignment = style.alignment;
+  let output = '';
+
+  // Tags are opened lazily before text is written, so styling that changes
+  // between words never leaves empty pairs behind. Tags must nest: closing one
+  // also closes those opened after it, which are reopened if still wanted.
+  const sync = () => {
+    const index = open.findIndex((tag) => !desired[tag]);
+    if (index !== -1) {
+      output += open.splice(index).reverse().map((tag) => `</${tag}>`).join('');
+    }
+    TAGS.forEach((tag) => {
+      if (desired[tag] && !open.includes(tag)) {
+        open.push(tag);
+        output += `<${tag}>`;
+      }
+    });
+  };
+
+  for (const part of text.split(/(\{[^}]*\})/)) {
+    if (part.startsWith('{') && part.endsWith('}')) {
+      for (const [, tag] of part.slice(1, -1).matchAll(OVERRIDE_TAG)) {
+        if (tag.startsWith('an')) {
+          alignment = Number(tag.slice(2)) || alignment;
+        } else if (tag.startsWith('r')) {
+          // \r alone resets to the line's style, \r<name> to the named one
+          desired = flags(styles.get(tag.slice(1)) ?? style);
+        } else {
+          const name = tag[0] as Tag;
+          const value = tag.slice(1);
+          // No value restores the style's setting; \b also takes a font weight
+          if (value === '') desired[name] = flags(style)[name];
+          else desired[name] = value.length === 3 ? Number(value) >= 600 : value === '1';
+        }
+      }
+    } else {
+      const converted = part
+        .replace(/\\[Nn]/g, '\n')
+        .replace(/\\h/g, ' ')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+      if (converted) {
+        sync();
+        output += converted;
+      }
+    }
+  }
+  output += open.reverse().map((tag) => `</${tag}>`).join('');
+  return { text: output.trim(), alignment };
+}
+
+// Parses .ass and .ssa files. Only [V4+ Styles]/[V4 Styles] and [Events] are
+// read; comments, pictures and drawings (\p1) are ignored.
+export function parseAss(text: string): SubtitleParseResult {
+  const errors: SubtitleParseError[] = [];
+  const cues: SubtitleCue[] = [];
+  const styles = new Map<string, AssStyle>();
+  let section = '';
+  let isSsa = false;
+  let styleFormat: string[] = [];
+  let eventFormat: string[] = [];
+
+  text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const lineNumber = index + 1;
+    if (!line || line.startsWith(';')) return;
+    const sectionMatch = /^\[(.+)\]$/.exec(line);
+    if (sectionMatch) {
+      section = sectionMatch[1].toLowerCase();
+      if (section === 'v4 styles') isSsa = true;
+      return;
+    }
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1);
+
+    if (section === 'v4+ styles' || section === 'v4 styles') {
+      if (key === 'format') {
+        styleFormat = value.split(',').map((name) => name.trim().toLowerCase());
+      } else if (key === 'style') {
+        const fields = splitFields(value, styleFormat.length);
+        const get = (name: string) => fields[styleFormat.indexOf(name)];
+        const alignment = Number(get('alignment')) || 2;
+        styles.set(get('name') ?? '', {
+          bold: isOn(get('bold')),
+          italic: isOn(get('italic')),
+          underline: isOn(get('underline')),
+          alignment: isSsa ? SSA_ALIGNMENT[alignment] ?? 2 : alignment,
+        });
+      }
+    } else if (section === 'events') {
+      if (key === 'format') {
+        eventFormat = value.split(',').map((name) => name.trim().toLowerCase());
+      } else if (key === 'dialogue') {
+        if (!eventFormat.includes('text')) {
+          errors.push({ line: lineNumber, message: '[Events] 中缺少包含 Text 的 Format 行' });
+          return;
+        }
+        const fields = splitFields(value, eventFormat.length);
+        const get = (name: string) => fields[eventFormat.indexOf(name)];
+        const start = parseAssTime(get('start') ?? '');
+        const end = parseAssTime(get('end') ?? '');
+        if (Number.isNaN(start) || Number.isNaN(end)) {
+          errors.push({ line: lineNumber, message: `无效的时间 "${get('start')}" / "${get('end')}"` });
+          return;
+        }
+        if (end <= start) {
+          errors.push({ line: lineNumber, message: `结束时间 ${get('end')} 不晚于开始时间 ${get('start')}` });
+          return;
+        }
+        const rawText = get('text') ?? '';
+        if (/\\p[1-9]/.test(rawText)) return;
+        const style = styles.get((get('style') ?? '').replace(/^\*/, '')) ?? DEFAULT_STYLE;
+        const converted = convertText(rawText, style, styles);
+        if (!converted.text) return;
+        const settings = alignmentSettings(converted.alignment);
+        cues.push({ start, end, text: converted.text, ...(settings ? { settings } : {}) });
+      }
+    }
+  });
+
+  if (cues.length === 0 && errors.length === 0) {
+    errors.push({ line: 1, message: '文件中没有 [Events] 对话行' });
+  }
+  // Events are often grouped by layer or style rather than by time
+  cues.sort((a, b) => a.start - b.start);
+  return { cues, styles: [], notes: [], errors };
+}
@@ -0,0 +1,262 @@
+import type { SubtitleCue, SubtitleParseError, SubtitleParseResult } from './subtitles';
+
+// Frame and tick rates from the root <tt> element, used by "…f", "…t" and hh:mm:ss:ff times
+interface TimeBase {
+  frameRate: number;
+  tickRate: number;
+}
+
+// Styling that maps onto WebVTT tags and cue settings
+interface TtmlStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  textAlign?: string;
+  displayAlign?: string;
+}
+
+const CLOCK_TIME = /^(\d+):(\d{2}):(\d{2})(?:(\.\d+)|:(\d+(?:\.\d+)?))?$/;
+const OFFSET_TIME = /^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/;
+
+// Clock times (01:02:03.5, or 01:02:03:12 with frames) and offsets such as 2.5s, 40f or 1000t
+function parseTtmlTime(text: string, base: TimeBase): number {
+  const value = text.trim();
+  const clock = CLOCK_TIME.exec(value);
+  if (clock) {
+    const [, hours, minutes, seconds, fraction, frames] = clock;
+    return (
+      Number(hours) * 3600
+      + Number(minutes) * 60
+      + Number(seconds)
+      + (fraction ? Number(fraction) : 0)
+      + (frames ? Number(frames) / base.frameRate : 0)
+    );
+  }
+  const offset = OFFSET_TIME.exec(value);
+  if (offset) {
+    const amount = Number(offset[1]);
+    switch (offset[2]) {
+      case 'h': return amount * 3600;
+      case 'm': return amount * 60;
+      case 's': return amount;
+      case 'ms': return amount / 1000;
+      case 'f': return amount / base.frameRate;
+      case 't': return amount / base.tickRate;
+    }
+  }
+  return NaN;
+}
+
+// TTML, DFXP and SMPTE-TT use different namespace URIs for the same
+// attributes, so they are looked up by local name
+function getAttribute(element: Element, localName: string): string | null {
+  for (const attribute of Array.from(element.attributes)) {
+    if (attribute.localName === localName) return attribute.value;
+  }
+  return null;
+}
+
+function readStyle(element: Element): TtmlStyle {
+  const style: TtmlStyle = {};
+  const fontWeight = getAttribute(element, 'fontWeight');
+  const fontStyle = getAttribute(element, 'fontStyle');
+  const textDecoration = getAttribute(element, 'textDecoration');
+  const textAlign = getAttribute(element, 'textAlign');
+  const displayAlign = getAttribute(element, 'displayAlign');
+  if (fontWeight) style.bold = fontWeight === 'bold';
+  if (fontStyle) style.italic = fontStyle === 'italic' || fontStyle === 'oblique';
+  if (textDecoration) style.underline = textDecoration.includes('underline') && !textDecoration.includes('noUnderline');
+  if (textAlign) style.textAlign = textAlign;
+  if (displayAlign) style.displayAlign = displayAlign;
+  return style;
+}
+
+// Referenced styles (style="s1 s2") apply first, inline attributes override them
+function resolveStyle(element: Element, named: Map<string, TtmlStyle>, inherited: TtmlStyle): TtmlStyle {
+  const referenced = (getAttribute(element, 'style') ?? '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((id) => named.get(id) ?? {});
+  return Object.assign({}, inherited, ...referenced, readStyle(element));
+}
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function wrap(text: string, style: TtmlStyle, parent: TtmlStyle): string {
+  let result = text;
+  if (style.underline && !parent.underline) result = `<u>${result}</u>`;
+  if (style.italic && !parent.italic) result = `<i>${result}</i>`;
+  if (style.bold && !parent.bold) result = `<b>${result}</b>`;
+  return result;
+}
+
+// Text of a <p> with <br> as line breaks and span styling as b/i/u tags.
+// Whitespace is collapsed as with xml:space="default".
+function convertContent(node: Node, style: TtmlStyle, named: Map<string, TtmlStyle>): string {
+  return Array.from(node.childNodes)
+    .map((child) => {
+      if (child.nodeType === Node.TEXT_NODE) return escapeText((child.textContent ?? '').replace(/\s+/g, ' '));
+      if (child.nodeType !== Node.ELEMENT_NODE) return '';
+      const element = child as Element;
+      if (element.localName === 'br') return '\n';
+      if (element.localName !== 'span') return '';
+      const spanStyle = resolveStyle(element, named, style);
+      return wrap(convertContent(element, spanStyle, named), spanStyle, style);
+    })
+    .join('');
+}
+
+function cueSettings(style: TtmlStyle): string {
+  const settings: string[] = [];
+  if (style.displayAlign === 'before') settings.push('line:0');
+  if (style.textAlign === 'left' || style.textAlign === 'start') settings.push('align:start');
+  if (style.textAlign === 'right' || style.textAlign === 'end') settings.push('align:end');
+  return settings.join(' ');
+}
+
+// Absolute begin and end of a timed element whose parent begins at parentBegin.
+// begin defaults to the parent's; end is undefined when neither end nor dur is set.
+function readTiming(element: Element, parentBegin: number, base: TimeBase): { begin: number; end?: number } {
+  const beginText = getAttribute(element, 'begin');
+  const endText = getAttribute(element, 'end');
+  const durText = getAttribute(element, 'dur');
+  const begin = parentBegin + (beginText ? parseTtmlTime(beginText, base) : 0);
+  if (endText) return { begin, end: parentBegin + parseTtmlTime(endText, base) };
+  if (durText) return { begin, end: begin + parseTtmlTime(durText, base) };
+  return { begin };
+}
+
+// Earliest explicit begin and latest end of the (nested) spans inside an element
+function getSpanExtent(element: Element, begin: number, base: TimeBase): { start?: number; end?: number } {
+  const extent: { start?: number; end?: number } = {};
+  Array.from(element.children).forEach((child) => {
+    if (child.localName !== 'span') return;
+    const timing = readTiming(child, begin, base);
+    const inner = getSpanExtent(child, timing.begin, base);
+    const start = getAttribute(child, 'begin') ? timing.begin : inner.start;
+    const end = timing.end ?? inner.end;
+    if (start !== undefined) extent.start = Math.min(extent.start ?? Infinity, start);
+    if (end !== undefined) extent.end = Math.max(extent.end ?? -Infinity, end);
+  });
+  return extent;
+}
+
+// Line of each <p> start tag in the source, in document order, so errors can
+// point into the file even though the DOM does not keep positions
+function findParagraphLines(text: string): number[] {
+  const lines: number[] = [];
+  let line = 1;
+  let lastIndex = 0;
+  for (const match of text.matchAll(/<(?:[\w-]+:)?p[\s>/]/g)) {
+    line += (text.slice(lastIndex, match.index).match(/\n/g) ?? []).length;
+    lastIndex = match.index ?? lastIndex;
+    lines.push(line);
+  }
+  return lines;
+}
+
+// Parses TTML and its DFXP/SMPTE-TT profiles. Each <p> becomes one cue;
+// begin offsets of enclosing <body> and <div> elements are added to its own.
+export function parseTtml(text: string): SubtitleParseResult {
+  const errors: SubtitleParseError[] = [];
+  const cues: SubtitleCue[] = [];
+  const result: SubtitleParseResult = { cues, styles: [], notes: [], errors };
+  const source = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const xml = new DOMParser().parseFromString(source, 'application/xml');
+
+  const parserError = xml.getElementsByTagName('parsererror')[0];
+  if (parserError) {
+    const line = /line(?: number)?\s*:?\s*(\d+)/i.exec(parserError.textContent ?? '');
+    errors.push({ line: line ? Number(line[1]) : 1, message: 'XML 格式错误，无法解析' });
+    return result;
+  }
+  const root = xml.documentElement;
+  if (root.localName !== 'tt') {
+    errors.push({ line: 1, message: 'TTML 文件的根元素必须是 <tt>' });
+    return result;
+  }
+
+  // Defaults from the TTML spec: 30 fps, and one tick per frame (at the effective,
+  // multiplied rate) when a frame rate is declared, else one per second
+  const declaredFrameRate = Number(getAttribute(root, 'frameRate'));
+  const multiplier = (getAttribute(root, 'frameRateMultiplier') ?? '1 1').split(/\s+/).map(Number);
+  const frameRate = (declaredFrameRate || 30)
+    * (multiplier.length === 2 && multiplier[1] ? multiplier[0] / multiplier[1] : 1);
+  const base: TimeBase = {
+    frameRate,
+    tickRate: Number(getAttribute(root, 'tickRate')) || (declaredFrameRate ? frameRate : 1),
+  };
+
+  const named = new Map<string, TtmlStyle>();
+  Array.from(xml.getElementsByTagNameNS('*', 'style')).forEach((element) => {
+    const id = getAttribute(element, 'id');
+    if (id) named.set(id, resolveStyle(element, named, {}));
+  });
+
+  const paragraphLines = findParagraphLines(source);
+  Array.from(xml.getElementsByTagNameNS('*', 'p')).forEach((paragraph, index) => {
+    const line = paragraphLines[index] ?? 1;
+    // Begin of the parent and the earliest end set by an ancestor, in seconds
+    let offset = 0;
+    let parentEnd: number | undefined;
+    let style: TtmlStyle = {};
+    const ancestors: Element[] = [];
+    for (let parent = paragraph.parentElement; parent && parent !== root; parent = parent.parentElement) {
+      ancestors.unshift(parent);
+    }
+    for (const ancestor of ancestors) {
+      const timing = readTiming(ancestor, offset, base);
+      offset = timing.begin;
+      if (timing.end !== undefined) parentEnd = Math.min(parentEnd ?? Infinity, timing.end);
+      style = resolveStyle(ancestor, named, style);
+    }
+    style = resolveStyle(paragraph, named, style);
+
+    // Timing missing on the <p> comes from its parent or from the <span>s inside it
+    const timing = readTiming(paragraph, offset, base);
+    const spans = getSpanExtent(paragraph, timing.begin, base);
+    const start = getAttribute(paragraph, 'begin') ? timing.begin : spans.start ?? timing.begin;
+    // A <p> is cut off where its parent ends
+    const ownEnd = timing.end ?? spans.end;
+    const end = ownEnd !== undefined && parentEnd !== undefined ? Math.min(ownEnd, parentEnd) : ownEnd ?? parentEnd;
+    if (end === undefined) {
+      errors.push({ line, message: '无法确定 <p> 的结束时间：它自身、上级元素和其中的 <span> 都没有 end 或 dur 属性' });
+      return;
+    }
+    if (Number.isNaN(start) || Number.isNaN(end)) {
+      const attributes = ['begin', 'end', 'dur']
+        .map((name) => [name, getAttribute(paragraph, name)])
+        .filter(([, value]) => value !== null)
+        .map(([name, value]) => `${name}="${value}"`);
+      errors.push({ line, message: `无效的时间${attributes.length > 0 ? ` ${attributes.join(' ')}` : ''}` });
+      return;
+    }
+    if (end <= start) {
+      errors.push({ line, message: `结束时间不晚于开始时间 (begin="${getAttribute(paragraph, 'begin') ?? ''}")` });
+      return;
+    }
+    const payload = wrap(convertContent(paragraph, style, named), style, {})
+      .split('\n')
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .join('\n');
+    if (!payload) return;
+    const id = getAttribute(paragraph, 'id');
+    const settings = cueSettings(style);
+    cues.push({
+      ...(id ? { id } : {}),
+      start,
+      end,
+      text: payload,
+      ...(settings ? { settings } : {}),
+    });
+  });
+
+  if (cues.length === 0 && errors.length === 0) {
+    errors.push({ line: 1, message: '文件中没有带时间的 <p> 字幕' });
+  }
+  cues.sort((a, b) => a.start - b.start);
+  return result;
+}
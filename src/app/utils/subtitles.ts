@@ -0,0 +1,228 @@
+import { formatCueTime } from './captionExport';
+import { parseAss } from './subtitleAss';
+import { parseTtml } from './subtitleTtml';
+
+// Everything is converted to WebVTT for the <track> element
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass' | 'ttml';
+
+export interface SubtitleCue {
+  // SRT cue number or WebVTT cue identifier
+  id?: string;
+  start: number;
+  end: number;
+  // Payload lines joined with "\n", styling tags (<i>, <b>, <c.class>, ...) kept as written
+  text: string;
+  // WebVTT cue settings such as "line:0 align:start"
+  settings?: string;
+}
+
+export interface SubtitleDocument {
+  cues: SubtitleCue[];
+  // Bodies of WebVTT STYLE and NOTE blocks
+  styles: string[];
+  notes: string[];
+}
+
+export interface SubtitleParseError {
+  // 1-based line in the source file
+  line: number;
+  message: string;
+}
+
+// Malformed cues are skipped and reported; the rest of the file is still used
+export interface SubtitleParseResult extends SubtitleDocument {
+  errors: SubtitleParseError[];
+}
+
+interface Block {
+  line: number;
+  lines: string[];
+}
+
+// SRT allows any number of hour digits and some tools write "." instead of ","
+const SRT_TIME = /^(\d+):(\d{1,2}):(\d{1,2})[,.](\d{1,3})$/;
+// WebVTT hours are optional
+const VTT_TIME = /^(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})$/;
+const TIMING_LINE = /^(\S+)[ \t]+-->[ \t]+(\S+)(?:[ \t]+(.*))?$/;
+
+export function getSubtitleFormat(fileName: string): SubtitleFormat | null {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.srt')) return 'srt';
+  if (name.endsWith('.vtt')) return 'vtt';
+  if (name.endsWith('.ass') || name.endsWith('.ssa')) return 'ass';
+  if (name.endsWith('.ttml') || name.endsWith('.dfxp') || name.endsWith('.xml')) return 'ttml';
+  return null;
+}
+
+// Strips a BOM, unifies line endings and splits on blank lines, remembering
+// where each block starts
+function splitBlocks(text: string): Block[] {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+  lines.forEach((line, index) => {
+    if (line.trim() === '') {
+      current = null;
+    } else if (current) {
+      current.lines.push(line);
+    } else {
+      current = { line: index + 1, lines: [line] };
+      blocks.push(current);
+    }
+  });
+  return blocks;
+}
+
+function parseTimestamp(text: string, pattern: RegExp): number {
+  const match = pattern.exec(text);
+  if (!match) return NaN;
+  const [, hours = '0', minutes, seconds, ms] = match;
+  if (Number(minutes) > 59 || Number(seconds) > 59) return NaN;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(ms.padEnd(3, '0')) / 1000;
+}
+
+// Parses the timing line of a cue; returns an error message when it is malformed
+function parseTiming(
+  line: string,
+  pattern: RegExp
+): { start: number; end: number; settings: string } | string {
+  const match = TIMING_LINE.exec(line.trim());
+  if (!match) return `无法识别的时间行 "${line.trim()}"`;
+  const start = parseTimestamp(match[1], pattern);
+  const end = parseTimestamp(match[2], pattern);
+  if (Number.isNaN(start)) return `无效的开始时间 "${match[1]}"`;
+  if (Number.isNaN(end)) return `无效的结束时间 "${match[2]}"`;
+  if (end <= start) return `结束时间 ${match[2]} 不晚于开始时间 ${match[1]}`;
+  return { start, end, settings: match[3]?.trim() ?? '' };
+}
+
+// Splits a block into an optional identifier, the timing line and the payload.
+// The timing line is the first one containing "-->", so identifiers and SRT
+// numbers carrying stray markup are still recognised.
+function parseCueBlock(
+  block: Block,
+  pattern: RegExp,
+  errors: SubtitleParseError[]
+): { id?: string; start: number; end: number; settings: string; lines: string[] } | null {
+  const timingIndex = block.lines.findIndex((line) => line.includes('-->'));
+  if (timingIndex === -1) {
+    errors.push({ line: block.line, message: '字幕缺少时间行（"开始 --> 结束"）' });
+    return null;
+  }
+  if (timingIndex > 1) {
+    errors.push({ line: block.line, message: '时间行之前只能有一行字幕编号' });
+    return null;
+  }
+  const timing = parseTiming(block.lines[timingIndex], pattern);
+  if (typeof timing === 'string') {
+    errors.push({ line: block.line + timingIndex, message: timing });
+    return null;
+  }
+  const lines = block.lines.slice(timingIndex + 1);
+  if (lines.length === 0) {
+    errors.push({ line: block.line + timingIndex, message: '字幕没有文本' });
+    return null;
+  }
+  return { id: timingIndex === 1 ? block.lines[0].trim() : undefined, ...timing, lines };
+}
+
+// End tags, start tags with optional classes (<c.yellow>), <v>/<lang> with their
+// annotation, and cue timestamps (<00:01.000>)
+const CUE_TAG =
+  /^<(?:\/(?:[biuc]|v|lang|ruby|rt)|(?:[biuc]|ruby|rt)(?:\.[\w-]+)*|(?:v|lang)(?:\.[\w-]+)*(?:[ \t][^<>]*)?|[\d:.]+)>/;
+
+// SRT text is plain text with a few tags, but WebVTT cue text is markup: a
+// stray "&" or "<" would be misparsed by the browser, so they are escaped
+// unless they start a tag WebVTT knows
+function escapeCueText(text: string): string {
+  return text.replace(/[&<]/g, (char, offset: number) => {
+    if (char === '&') return '&amp;';
+    return CUE_TAG.test(text.slice(offset)) ? char : '&lt;';
+  });
+}
+
+export function parseSrt(text: string): SubtitleParseResult {
+  const errors: SubtitleParseError[] = [];
+  const cues: SubtitleCue[] = [];
+  splitBlocks(text).forEach((block) => {
+    const cue = parseCueBlock(block, SRT_TIME, errors);
+    if (!cue) return;
+    // SRT coordinates (X1:… Y2:…) and <font> tags have no WebVTT equivalent,
+    // and ASS-style overrides such as {\an8} would otherwise show up as text
+    const payload = cue.lines
+      .map((line) => escapeCueText(line.replace(/\{\\[^}]*\}|<\/?font(?:\s[^>]*)?>/gi, '')))
+      .join('\n');
+    cues.push({ id: cue.id, start: cue.start, end: cue.end, text: payload });
+  });
+  return { cues, styles: [], notes: [], errors };
+}
+
+export function parseVtt(text: string): SubtitleParseResult {
+  const errors: SubtitleParseError[] = [];
+  const result: SubtitleParseResult = { cues: [], styles: [], notes: [], errors };
+  const [header, ...blocks] = splitBlocks(text);
+  if (!header || !/^WEBVTT(?:[ \t]|$)/.test(header.lines[0])) {
+    errors.push({ line: header?.line ?? 1, message: 'WebVTT 文件必须以 "WEBVTT" 开头' });
+    return result;
+  }
+  blocks.forEach((block) => {
+    const [first] = block.lines;
+    if (/^NOTE(?:[ \t]|$)/.test(first)) {
+      result.notes.push([first.slice(4).trim(), ...block.lines.slice(1)].filter(Boolean).join('\n'));
+    } else if (/^STYLE[ \t]*$/.test(first)) {
+      result.styles.push(block.lines.slice(1).join('\n'));
+    } else if (/^REGION[ \t]*$/.test(first)) {
+      // Region definitions are rarely used and not supported by every browser; skip them
+    } else {
+      const cue = parseCueBlock(block, VTT_TIME, errors);
+      if (cue) {
+        result.cues.push({
+          ...(cue.id ? { id: cue.id } : {}),
+          start: cue.start,
+          end: cue.end,
+          text: cue.lines.join('\n'),
+          ...(cue.settings ? { settings: cue.settings } : {}),
+        });
+      }
+    }
+  });
+  return result;
+}
+
+export function parseSubtitles(text: string, format: SubtitleFormat): SubtitleParseResult {
+  switch (format) {
+    case 'srt':
+      return parseSrt(text);
+    case 'vtt':
+      return parseVtt(text);
+    case 'ass':
+      return parseAss(text);
+    case 'ttml':
+      return parseTtml(text);
+  }
+}
+
+// Accept attribute of the subtitle file input
+export const SUBTITLE_FILE_ACCEPT = '.srt,.vtt,.ass,.ssa,.ttml,.dfxp,.xml';
+
+// "-->" would end the payload early, so it is broken up wherever it appears
+const escapeArrow = (text: string) => text.replace(/-->/g, '--&gt;');
+
+// WebVTT for the <track> element; STYLE blocks must precede the first cue
+export function serializeVtt(document: SubtitleDocument): string {
+  const blocks = [
+    'WEBVTT',
+    ...document.styles.map((style) => `STYLE\n${style}`),
+    ...document.notes.map((note) => `NOTE\n${escapeArrow(note)}`),
+    ...document.cues.map((cue) => {
+      const timing = `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}`;
+      const lines = [
+        ...(cue.id ? [escapeArrow(cue.id)] : []),
+        cue.settings ? `${timing} ${cue.settings}` : timing,
+        escapeArrow(cue.text),
+      ];
+      return lines.join('\n');
+    }),
+  ];
+  return blocks.join('\n\n') + '\n';
+}
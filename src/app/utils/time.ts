@@ -0,0 +1,34 @@
+// m:ss.mmm, e.g. 83.25 -> "1:23.250"
+export function formatPreciseTime(time: number): string {
+  const totalMs = Math.round(time * 1000);
+  const minutes = Math.floor(totalMs / 60000);
+  const seconds = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}.${ms.toString().padStart(3, '0')}`;
+}
+
+// Accepts "ss", "m:ss", "h:mm:ss" with optional ".mmm"; returns NaN when malformed
+export function parseTime(text: string): number {
+  const parts = text.trim().split(':');
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) {
+    return NaN;
+  }
+  return parts.reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+// h:mm:ss.mmm, e.g. 83.25 -> "0:01:23.250"; the format the edit form takes
+export function formatTimecode(time: number): string {
+  const totalMs = Math.round(time * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const rest = formatPreciseTime((totalMs % 3600000) / 1000);
+  return `${hours}:${rest.padStart(9, '0')}`;
+}
+
+// Why a typed timestamp cannot be used, or null when it can. An unknown
+// duration (0) leaves the upper bound unchecked.
+export function validateTimestamp(text: string, duration: number): string | null {
+  const time = parseTime(text);
+  if (Number.isNaN(time)) return 'Use h:mm:ss.mmm, e.g. 0:01:23.250';
+  if (duration > 0 && time > duration) return `The video is only ${formatTimecode(duration)} long`;
+  return null;
+}